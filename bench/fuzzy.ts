@@ -0,0 +1,130 @@
+/**
+ * Fuzzy matcher benchmark: bit-parallel `fuzzySearchText` against the
+ * previous full-matrix implementation, on synthetic page-sized text.
+ *
+ *   npm run bench
+ */
+import { fuzzySearchText } from '../src/core/SearchEngine';
+import type { FuzzyMatch } from '../src/core/SearchEngine';
+
+/** Previous implementation: keeps every DP column for traceback (O(n·m) memory). */
+function legacyFuzzySearchText(text: string, query: string, maxErrors: number): FuzzyMatch[] {
+  const n = text.length;
+  const m = query.length;
+  if (m === 0 || n === 0) return [];
+
+  let prev = new Uint32Array(m + 1);
+  for (let j = 0; j <= m; j++) prev[j] = j;
+  const columns: Uint32Array[] = [prev.slice()];
+  const endPositions: Array<{ col: number; distance: number }> = [];
+
+  for (let i = 1; i <= n; i++) {
+    const curr = new Uint32Array(m + 1);
+    for (let j = 1; j <= m; j++) {
+      const cost = text[i - 1] === query[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    columns.push(curr.slice());
+    if (curr[m] <= maxErrors) endPositions.push({ col: i, distance: curr[m] });
+    prev = curr;
+  }
+
+  const rawMatches: FuzzyMatch[] = [];
+  for (const { col: endCol, distance } of endPositions) {
+    let j = m;
+    let i = endCol;
+    while (j > 0 && i > 0) {
+      const c = columns[i];
+      const p = columns[i - 1];
+      const cost = text[i - 1] === query[j - 1] ? 0 : 1;
+      if (c[j] === p[j - 1] + cost) {
+        i--;
+        j--;
+      } else if (c[j] === p[j] + 1) {
+        i--;
+      } else {
+        j--;
+      }
+    }
+    rawMatches.push({ start: i, end: endCol, distance });
+  }
+
+  if (rawMatches.length === 0) return [];
+  rawMatches.sort((a, b) => a.start - b.start || a.distance - b.distance);
+  const merged: FuzzyMatch[] = [rawMatches[0]];
+  for (let i = 1; i < rawMatches.length; i++) {
+    const last = merged[merged.length - 1];
+    const curr = rawMatches[i];
+    if (curr.start < last.end) {
+      if (curr.distance < last.distance) merged[merged.length - 1] = curr;
+    } else {
+      merged.push(curr);
+    }
+  }
+  return merged;
+}
+
+/** Deterministic pseudo-random text (seeded LCG), words from a small vocabulary. */
+function makeText(length: number, seed: number): string {
+  const words = [
+    'the', 'agreement', 'party', 'shall', 'terminate', 'notice', 'within',
+    'thirty', 'days', 'of', 'invoice', 'payment', 'clause', 'liability',
+    'confidential', 'information', 'provided', 'hereunder', 'and', 'or',
+  ];
+  let state = seed;
+  const rand = () => (state = (state * 1103515245 + 12345) & 0x7fffffff) / 0x7fffffff;
+  let text = '';
+  while (text.length < length) text += words[Math.floor(rand() * words.length)] + ' ';
+  return text.slice(0, length);
+}
+
+function time(run: () => void, iterations: number): number {
+  const startedAt = performance.now();
+  for (let k = 0; k < iterations; k++) run();
+  return (performance.now() - startedAt) / iterations;
+}
+
+/** A passage of `text` with a typo every `every` chars, so long queries still match. */
+function makeQuery(text: string, at: number, length: number, every: number): string {
+  const chars = text.slice(at, at + length).split('');
+  for (let i = every - 1; i < chars.length; i += every) chars[i] = chars[i] === 'x' ? 'y' : 'x';
+  return chars.join('');
+}
+
+const cases = [
+  { textLength: 5_000, queryLength: 8, typoEvery: 8, threshold: 0.7 },
+  { textLength: 20_000, queryLength: 24, typoEvery: 10, threshold: 0.7 },
+  { textLength: 20_000, queryLength: 60, typoEvery: 15, threshold: 0.8 },
+  { textLength: 50_000, queryLength: 120, typoEvery: 20, threshold: 0.8 },
+];
+
+console.log('text   query  errors  matches  legacy ms  bit-parallel ms  speed-up  legacy matrix');
+for (const { textLength, queryLength, typoEvery, threshold } of cases) {
+  const text = makeText(textLength, textLength);
+  const query = makeQuery(text, Math.floor(textLength / 2), queryLength, typoEvery);
+  const maxErrors = Math.floor(query.length * (1 - threshold));
+
+  const expected = legacyFuzzySearchText(text, query, maxErrors);
+  const actual = fuzzySearchText(text, query, maxErrors);
+  if (JSON.stringify(expected) !== JSON.stringify(actual)) {
+    throw new Error(`Results differ for "${query}" on ${textLength} chars`);
+  }
+
+  const iterations = Math.max(1, Math.round(200_000 / textLength));
+  const legacyMs = time(() => legacyFuzzySearchText(text, query, maxErrors), iterations);
+  const newMs = time(() => fuzzySearchText(text, query, maxErrors), iterations);
+  const matrixMb = ((textLength + 1) * (query.length + 1) * 4) / 1024 / 1024;
+
+  console.log(
+    [
+      String(textLength).padEnd(6),
+      String(query.length).padEnd(6),
+      String(maxErrors).padEnd(7),
+      String(actual.length).padEnd(8),
+      legacyMs.toFixed(2).padEnd(10),
+      newMs.toFixed(2).padEnd(16),
+      `${(legacyMs / newMs).toFixed(1)}x`.padEnd(9),
+      `${matrixMb.toFixed(1)} MB`,
+    ].join(' ')
+  );
+}
@@ -0,0 +1,302 @@
+import { EventEmitter } from './EventEmitter';
+import { layoutPageText, rangesForOffsets } from './MatchDetails';
+import { getMatchGeometry } from './MatchGeometry';
+import { DEFAULT_CLASS_NAMES, DEFAULT_ANNOTATION_COLOR } from './constants';
+import type {
+  Annotation,
+  AnnotationAnchor,
+  AnnotationManagerEventMap,
+  ClassNames,
+  ExportHighlight,
+  PageData,
+  TextSpan,
+} from '../types';
+
+export interface AnnotationManagerOptions {
+  classNames?: Pick<ClassNames, 'annotationLayer' | 'annotation'>;
+}
+
+/** Color and note of a new or updated annotation. */
+export interface AnnotationProps {
+  color?: string;
+  note?: string;
+}
+
+/** `data-layer` of the overlay (its class is configurable). */
+const ANNOTATION_LAYER = 'annotations';
+
+let idCounter = 0;
+
+function createId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `ann-${Date.now().toString(36)}-${(idCounter++).toString(36)}`;
+}
+
+function copyAnnotation(a: Annotation): Annotation {
+  return { ...a, anchors: a.anchors.map((anchor) => ({ ...anchor })) };
+}
+
+/** Chars of `el` before the boundary point (node, offset), as in `span.text`. */
+function offsetInElement(el: HTMLElement, node: Node, offset: number): number {
+  const range = document.createRange();
+  range.selectNodeContents(el);
+  range.setEnd(node, offset);
+  return range.toString().length;
+}
+
+/**
+ * User annotations: highlights with a color and a note, anchored to page
+ * text offsets so they survive zoom and can be stored as JSON.
+ *
+ * Annotations are drawn as rectangles in an overlay per page (not as <mark>s
+ * in the text layer), computed from the text item positions — search
+ * highlights and annotations never disturb each other.
+ *
+ * Usage:
+ * ```js
+ * const annotations = new AnnotationManager();
+ * annotations.setPages(pages);
+ *
+ * saveBtn.onclick = () => annotations.createFromSelection({ color: '#ff000055', note: 'Check' });
+ * annotations.on('create', ({ annotation }) => api.save(annotation));
+ *
+ * localStorage.annotations = annotations.serialize();
+ * annotations.load(localStorage.annotations);
+ * ```
+ */
+export class AnnotationManager extends EventEmitter<AnnotationManagerEventMap> {
+  private pages: PageData[] = [];
+  private annotations: Annotation[] = [];
+  private layerClass: string;
+  private annotationClass: string;
+
+  constructor(options: AnnotationManagerOptions = {}) {
+    super();
+    const cls = { ...DEFAULT_CLASS_NAMES, ...options.classNames };
+    this.layerClass = cls.annotationLayer;
+    this.annotationClass = cls.annotation;
+  }
+
+  /** Set the pages to draw on (again after zoom/re-render). */
+  setPages(pages: PageData[]): void {
+    this.pages.forEach((_, i) => this.clearPage(i));
+    this.pages = pages;
+    this.pages.forEach((_, i) => this.drawPage(i));
+  }
+
+  /** Draw annotations on a page whose text layer was rendered later (`pagerender`). */
+  refreshPage(pageIndex: number): void {
+    this.drawPage(pageIndex);
+  }
+
+  /**
+   * Create an annotation from the text selected in the text layer.
+   * Returns null if the selection covers no text of the pages.
+   */
+  createFromSelection(
+    props: AnnotationProps = {},
+    selection: Selection | null = typeof window !== 'undefined' ? window.getSelection() : null
+  ): Annotation | null {
+    if (!selection || selection.rangeCount === 0 || selection.isCollapsed) return null;
+    const range = selection.getRangeAt(0);
+
+    const anchors: AnnotationAnchor[] = [];
+    this.pages.forEach((pd, pageIndex) => {
+      if (pd.rendered === false || !range.intersectsNode(pd.container)) return;
+      const layout = layoutPageText(pd.spans);
+      let start = -1;
+      let end = -1;
+      pd.spans.forEach((s, si) => {
+        if (!range.intersectsNode(s.el)) return;
+        const from = s.el.contains(range.startContainer)
+          ? offsetInElement(s.el, range.startContainer, range.startOffset)
+          : 0;
+        const to = s.el.contains(range.endContainer)
+          ? offsetInElement(s.el, range.endContainer, range.endOffset)
+          : s.text.length;
+        if (to <= from) return;
+        if (start < 0) start = layout.spanStarts[si] + from;
+        end = layout.spanStarts[si] + to;
+      });
+      if (start >= 0) anchors.push({ pageNumber: pageIndex + 1, start, end });
+    });
+
+    return anchors.length > 0 ? this.create(anchors, props) : null;
+  }
+
+  /** Create an annotation from anchors (e.g. from a match's `start`/`end`). */
+  create(anchors: AnnotationAnchor[], props: AnnotationProps = {}): Annotation {
+    const now = new Date().toISOString();
+    const annotation: Annotation = {
+      id: createId(),
+      anchors: anchors.map((a) => ({ ...a })),
+      text: anchors.map((a) => this.anchorText(a)).join('\n'),
+      color: props.color ?? DEFAULT_ANNOTATION_COLOR,
+      ...(props.note !== undefined && { note: props.note }),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.annotations.push(annotation);
+    this.redraw(annotation);
+    this.emit('create', { annotation });
+    return annotation;
+  }
+
+  /** Change an annotation's color or note. Returns it, or null if not found. */
+  update(id: string, props: AnnotationProps): Annotation | null {
+    const annotation = this.get(id);
+    if (!annotation) return null;
+    if (props.color !== undefined) annotation.color = props.color;
+    if (props.note !== undefined) annotation.note = props.note;
+    annotation.updatedAt = new Date().toISOString();
+    this.redraw(annotation);
+    this.emit('update', { annotation });
+    return annotation;
+  }
+
+  /** Delete an annotation. Returns false if not found. */
+  remove(id: string): boolean {
+    const annotation = this.get(id);
+    if (!annotation) return false;
+    this.annotations = this.annotations.filter((a) => a !== annotation);
+    this.redraw(annotation);
+    this.emit('delete', { annotation });
+    return true;
+  }
+
+  get(id: string): Annotation | undefined {
+    return this.annotations.find((a) => a.id === id);
+  }
+
+  /** All annotations in creation order. */
+  getAll(): Annotation[] {
+    return [...this.annotations];
+  }
+
+  /** Annotations as plain objects (for `JSON.stringify`). */
+  toJSON(): Annotation[] {
+    return this.annotations.map(copyAnnotation);
+  }
+
+  /** Annotations as a JSON string. */
+  serialize(): string {
+    return JSON.stringify(this.toJSON());
+  }
+
+  /**
+   * Replace all annotations with saved ones (a `serialize()` string or
+   * `toJSON()` array). Does not emit `create`. Throws on invalid JSON.
+   */
+  load(data: string | Annotation[]): void {
+    const list: Annotation[] = typeof data === 'string' ? JSON.parse(data) : data;
+    if (!Array.isArray(list)) throw new Error('Invalid annotations: expected an array');
+    this.annotations = list.map(copyAnnotation);
+    this.pages.forEach((_, i) => this.drawPage(i));
+  }
+
+  /**
+   * Annotations as highlights to write into the PDF file (see
+   * `exportAnnotatedPDF`), one per anchor, with their color and note.
+   *
+   * @param getSpans - Spans of a page, e.g. from the text index, so anchors on
+   *   pages that are not rendered are included. Defaults to the rendered spans.
+   */
+  getExportHighlights(
+    getSpans: (pageIndex: number) => TextSpan[] | null | undefined = (i) =>
+      this.pages[i]?.rendered === false ? null : this.pages[i]?.spans
+  ): ExportHighlight[] {
+    const highlights: ExportHighlight[] = [];
+    for (const annotation of this.annotations) {
+      for (const anchor of annotation.anchors) {
+        const pageIndex = anchor.pageNumber - 1;
+        const spans = getSpans(pageIndex);
+        if (!spans) continue;
+        const ranges = rangesForOffsets(layoutPageText(spans), spans, anchor.start, anchor.end);
+        const geometry = getMatchGeometry(
+          [{ pageIndex, ranges }],
+          () => spans,
+          () => this.pages[pageIndex]?.viewport
+        );
+        if (!geometry) continue;
+        highlights.push({
+          pageIndex,
+          rects: geometry[0].pdfRects,
+          color: annotation.color,
+          ...(annotation.note && { note: annotation.note }),
+        });
+      }
+    }
+    return highlights;
+  }
+
+  /** Remove all annotations (without `delete` events). */
+  clear(): void {
+    this.annotations = [];
+    this.pages.forEach((_, i) => this.clearPage(i));
+  }
+
+  /** Remove the overlays and listeners. */
+  destroy(): void {
+    this.clear();
+    this.pages = [];
+    this.removeAllListeners();
+  }
+
+  private anchorText(anchor: AnnotationAnchor): string {
+    const pd = this.pages[anchor.pageNumber - 1];
+    if (!pd || pd.rendered === false) return '';
+    return layoutPageText(pd.spans).text.slice(anchor.start, anchor.end);
+  }
+
+  /** Redraw the pages an annotation is on. */
+  private redraw(annotation: Annotation): void {
+    new Set(annotation.anchors.map((a) => a.pageNumber - 1)).forEach((i) => this.drawPage(i));
+  }
+
+  private clearPage(pageIndex: number): void {
+    this.pages[pageIndex]?.container
+      .querySelector(`:scope > [data-layer="${ANNOTATION_LAYER}"]`)
+      ?.remove();
+  }
+
+  /** (Re)create the overlay of a rendered page. */
+  private drawPage(pageIndex: number): void {
+    const pd = this.pages[pageIndex];
+    if (!pd || pd.rendered === false) return;
+    this.clearPage(pageIndex);
+
+    const layout = layoutPageText(pd.spans);
+    const layer = document.createElement('div');
+    layer.className = this.layerClass;
+    layer.dataset.layer = ANNOTATION_LAYER;
+    layer.style.position = 'absolute';
+    layer.style.inset = '0';
+    layer.style.pointerEvents = 'none';
+    for (const annotation of this.annotations) {
+      for (const anchor of annotation.anchors) {
+        if (anchor.pageNumber - 1 !== pageIndex) continue;
+        const ranges = rangesForOffsets(layout, pd.spans, anchor.start, anchor.end);
+        const geometry = getMatchGeometry(
+          [{ pageIndex, ranges }],
+          () => pd.spans,
+          () => pd.viewport
+        );
+        for (const rect of geometry?.[0].rects ?? []) {
+          const el = document.createElement('div');
+          el.className = this.annotationClass;
+          el.dataset.annotationId = annotation.id;
+          el.style.position = 'absolute';
+          el.style.left = rect.x + 'px';
+          el.style.top = rect.y + 'px';
+          el.style.width = rect.width + 'px';
+          el.style.height = rect.height + 'px';
+          el.style.background = annotation.color;
+          layer.appendChild(el);
+        }
+      }
+    }
+    if (layer.childElementCount > 0) pd.container.appendChild(layer);
+  }
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { parseBooleanQuery, searchBooleanPage } from './BooleanQuery';
+import type { SearchOptions, TextSpan } from '../types';
+
+/** One text line at baseline `y`, in a 10pt font. */
+const line = (text: string, y = 0): TextSpan => ({ text, hasEOL: true, transform: [10, 0, 0, 10, 0, y] });
+
+/** The matched text of each highlighted occurrence. */
+function highlighted(spans: TextSpan[], query: string, options: SearchOptions = {}): string[] {
+  return searchBooleanPage(spans, query, options).map((m) =>
+    m.ranges.map((r) => spans[r.spanIdx].text.slice(r.start, r.end)).join('|')
+  );
+}
+
+describe('parseBooleanQuery', () => {
+  it('binds NEAR, NOT, AND, OR from tightest to loosest', () => {
+    expect(parseBooleanQuery('a OR b c NOT d NEAR/2 e')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'term', text: 'a' },
+        {
+          type: 'and',
+          children: [
+            { type: 'term', text: 'b' },
+            { type: 'term', text: 'c' },
+            {
+              type: 'not',
+              child: {
+                type: 'near',
+                left: { type: 'term', text: 'd' },
+                right: { type: 'term', text: 'e' },
+                distance: 2,
+              },
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('keeps quoted phrases apart from terms', () => {
+    expect(parseBooleanQuery('"notice  period" AND notice')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'phrase', words: ['notice', 'period'] },
+        { type: 'term', text: 'notice' },
+      ],
+    });
+  });
+
+  it('groups with parentheses', () => {
+    expect(parseBooleanQuery('(a OR b) c')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'or', children: [{ type: 'term', text: 'a' }, { type: 'term', text: 'b' }] },
+        { type: 'term', text: 'c' },
+      ],
+    });
+  });
+
+  it.each([
+    ['', /no search terms/],
+    ['"open', /missing closing quote/],
+    ['(a OR b', /missing "\)"/],
+    ['a)', /unexpected "\)"/],
+    ['a NEAR b', /NEAR needs a distance/],
+    ['a AND', /unexpected end/],
+    ['OR b', /OR needs a term/],
+    ['NOT a', /only NOT terms/],
+  ])('rejects %j', (query, error) => {
+    expect(() => parseBooleanQuery(query)).toThrow(error);
+  });
+});
+
+describe('searchBooleanPage', () => {
+  const page = [line('the notice of termination was sent'), line('no waiver applies')];
+
+  it('highlights the terms that make the expression true', () => {
+    expect(highlighted(page, 'termination AND (notice OR breach)')).toEqual(['notice', 'termination']);
+    expect(highlighted(page, 'termination NOT waiver')).toEqual([]);
+    expect(highlighted(page, 'termination NOT breach')).toEqual(['termination']);
+  });
+
+  it('pairs NEAR/n terms with at most n words between them', () => {
+    expect(highlighted(page, 'notice NEAR/1 termination')).toEqual(['notice', 'termination']);
+    expect(highlighted(page, 'notice NEAR/0 termination')).toEqual([]);
+    expect(highlighted(page, 'termination NEAR/0 notice')).toEqual([]);
+    expect(highlighted(page, 'notice NEAR/0 of')).toEqual(['notice', 'of']);
+  });
+
+  it('does not pair an occurrence with itself', () => {
+    expect(highlighted(page, 'notice NEAR/5 notice')).toEqual([]);
+    const twice = [line('notice and notice')];
+    expect(highlighted(twice, 'notice NEAR/1 notice')).toEqual(['notice', 'notice']);
+  });
+
+  it('matches a phrase as consecutive words', () => {
+    const spans = [line('notice given'), line('period of notice'), line('noticeperiod')];
+    expect(highlighted(spans, '"notice period"')).toEqual([]);
+    expect(highlighted(spans, '"period of notice"')).toEqual(['period of notice']);
+    expect(highlighted(spans, '"notice given"')).toEqual(['notice given']);
+    // A bare term ignores whitespace, so it finds the run-together words
+    expect(highlighted(spans, 'noticeperiod')).toEqual(['noticeperiod']);
+    expect(highlighted(spans, '"notice" "period"')).toEqual(['notice', 'period', 'notice', 'notice', 'period']);
+  });
+
+  it('matches a phrase across a line break', () => {
+    const spans = [line('the notice', 12), line('period ends', 0)];
+    expect(highlighted(spans, '"notice period"')).toEqual(['notice|period']);
+  });
+
+  it('evaluates per line', () => {
+    expect(highlighted(page, 'notice AND waiver', { queryScope: 'line' })).toEqual([]);
+    expect(highlighted(page, 'notice AND waiver')).toEqual(['notice', 'waiver']);
+  });
+
+  it('splits paragraphs at vertical gaps between lines', () => {
+    const spans = [line('notice is given', 100), line('in writing', 88), line('waiver', 60)];
+    const query = 'notice AND (writing OR waiver)';
+    expect(highlighted(spans, query, { queryScope: 'paragraph' })).toEqual(['notice', 'writing']);
+    expect(highlighted(spans, 'notice AND waiver', { queryScope: 'paragraph' })).toEqual([]);
+  });
+
+  it('splits paragraphs at blank lines', () => {
+    const spans: TextSpan[] = [
+      { text: 'notice', hasEOL: true },
+      { text: '', hasEOL: true },
+      { text: 'waiver', hasEOL: true },
+    ];
+    expect(highlighted(spans, 'notice AND waiver', { queryScope: 'paragraph' })).toEqual([]);
+    expect(highlighted(spans, 'notice AND waiver')).toEqual(['notice', 'waiver']);
+  });
+});
@@ -0,0 +1,388 @@
+import { searchPageMatches } from './SearchEngine';
+import type { PageMatch } from './SearchEngine';
+import { layoutPageText, rangesForOffsets } from './MatchDetails';
+import type { PageTextLayout } from './MatchDetails';
+import type { SearchOptions, TextSpan } from '../types';
+
+/** Parsed boolean query (see `parseBooleanQuery`). */
+export type QueryNode =
+  | { type: 'term'; text: string }
+  | { type: 'phrase'; words: string[] }
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'near'; left: QueryNode; right: QueryNode; distance: number };
+
+type Token =
+  | { kind: 'word'; text: string }
+  | { kind: 'phrase'; text: string }
+  | { kind: 'and' | 'or' | 'not' | 'open' | 'close' }
+  | { kind: 'near'; distance: number };
+
+const NEAR_OPERATOR = /^NEAR\/(\d+)$/;
+
+/** Letters, digits and underscore in any script (same as word matching). */
+const WORD = /[\p{L}\p{N}_]+/gu;
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+
+/** Baseline distance, in font sizes, above which a line starts a paragraph. */
+const PARAGRAPH_GAP = 1.5;
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const c = query[i];
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === '(' || c === ')') {
+      tokens.push({ kind: c === '(' ? 'open' : 'close' });
+      i++;
+    } else if (c === '"') {
+      const close = query.indexOf('"', i + 1);
+      if (close < 0) throw new Error('Invalid query: missing closing quote');
+      const text = query.slice(i + 1, close).trim();
+      if (text) tokens.push({ kind: 'phrase', text });
+      i = close + 1;
+    } else {
+      let j = i;
+      while (j < query.length && !/[\s()"]/.test(query[j])) j++;
+      const word = query.slice(i, j);
+      const near = NEAR_OPERATOR.exec(word);
+      if (word === 'AND') tokens.push({ kind: 'and' });
+      else if (word === 'OR') tokens.push({ kind: 'or' });
+      else if (word === 'NOT') tokens.push({ kind: 'not' });
+      else if (near) tokens.push({ kind: 'near', distance: Number(near[1]) });
+      else if (word === 'NEAR') throw new Error('Invalid query: NEAR needs a distance, e.g. NEAR/10');
+      else tokens.push({ kind: 'word', text: word });
+      i = j;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Parse a boolean query. Operators are uppercase:
+ * `AND` (also implied between terms), `OR`, `NOT`, `NEAR/n` and parentheses;
+ * `"quoted phrases"` match their words in order, one after the other.
+ * Precedence: NEAR, NOT, AND, OR.
+ * `a NEAR/n b` holds when at most n words lie between `a` and `b` (either
+ * order), so `NEAR/0` means adjacent.
+ *
+ * Throws an Error for a malformed query.
+ */
+export function parseBooleanQuery(query: string): QueryNode {
+  const tokens = tokenize(query);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      pos++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseNot()];
+    for (;;) {
+      const next = peek();
+      if (next?.kind === 'and') {
+        pos++;
+      } else if (!next || next.kind === 'or' || next.kind === 'close') {
+        break;
+      }
+      children.push(parseNot());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseNot = (): QueryNode => {
+    if (peek()?.kind === 'not') {
+      pos++;
+      return { type: 'not', child: parseNot() };
+    }
+    return parseNear();
+  };
+
+  const parseNear = (): QueryNode => {
+    let left = parsePrimary();
+    for (let next = peek(); next?.kind === 'near'; next = peek()) {
+      pos++;
+      left = { type: 'near', left, right: parsePrimary(), distance: next.distance };
+    }
+    return left;
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = tokens[pos++];
+    if (!token) throw new Error('Invalid query: unexpected end of query');
+    switch (token.kind) {
+      case 'word':
+        return { type: 'term', text: token.text };
+      case 'phrase':
+        return { type: 'phrase', words: token.text.split(/\s+/) };
+      case 'open': {
+        const node = parseOr();
+        if (tokens[pos++]?.kind !== 'close') throw new Error('Invalid query: missing ")"');
+        return node;
+      }
+      case 'close':
+        throw new Error('Invalid query: unexpected ")"');
+      default:
+        throw new Error(`Invalid query: ${token.kind.toUpperCase()} needs a term before and after it`);
+    }
+  };
+
+  if (tokens.length === 0) throw new Error('Invalid query: no search terms');
+  const root = parseOr();
+  if (pos < tokens.length) throw new Error('Invalid query: unexpected ")"');
+  if (!hasPositiveTerm(root)) throw new Error('Invalid query: nothing to highlight (only NOT terms)');
+  return root;
+}
+
+/** Whether some term can produce a highlight (is not only under NOT). */
+function hasPositiveTerm(node: QueryNode): boolean {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return true;
+    case 'not':
+      return false;
+    case 'near':
+      return hasPositiveTerm(node.left) && hasPositiveTerm(node.right);
+    default:
+      return node.children.some(hasPositiveTerm);
+  }
+}
+
+/** A term match with its place in the page. */
+interface Occurrence {
+  match: PageMatch;
+  start: number;
+  end: number;
+  /** Scope unit (0 for page scope, else line or paragraph number). */
+  unit: number;
+  firstWord: number;
+  lastWord: number;
+}
+
+/** Number of sorted `offsets` that are ≤ `value`. */
+function countUpTo(offsets: number[], value: number): number {
+  let lo = 0;
+  let hi = offsets.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (offsets[mid] <= value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Offsets where paragraphs start in the page text: at the first line after a
+ * blank line, and at a line whose baseline is more than `PARAGRAPH_GAP` font
+ * sizes away from the previous line's (a vertical gap, or the top of another
+ * column). Without span transforms only blank lines separate paragraphs.
+ */
+function paragraphStarts(spans: TextSpan[], spanStarts: number[]): number[] {
+  const starts: number[] = [];
+  /** First span with text on the previous non-blank line. */
+  let previous: TextSpan | null = null;
+  let blankLine = false;
+  let lineFirst: number | null = null;
+
+  spans.forEach((span, i) => {
+    if (lineFirst === null && span.text.trim()) lineFirst = i;
+    if (!span.hasEOL && i < spans.length - 1) return;
+
+    // End of a line
+    if (lineFirst === null) {
+      blankLine = true;
+      return;
+    }
+    const first = spans[lineFirst];
+    if (previous && (blankLine || isParagraphGap(previous, first))) starts.push(spanStarts[lineFirst]);
+    previous = first;
+    blankLine = false;
+    lineFirst = null;
+  });
+  return starts;
+}
+
+/** Whether `line` sits too far from the `previous` line to continue its paragraph. */
+function isParagraphGap(previous: TextSpan, line: TextSpan): boolean {
+  if (!previous.transform || !line.transform) return false;
+  const [, , c, d, , y] = line.transform;
+  const fontSize = Math.hypot(c, d);
+  return fontSize > 0 && Math.abs(previous.transform[5] - y) > PARAGRAPH_GAP * fontSize;
+}
+
+/** Offsets where scope units (lines, paragraphs) start in the page text. */
+function unitStarts(
+  spans: TextSpan[],
+  layout: PageTextLayout,
+  scope: NonNullable<SearchOptions['queryScope']>
+): number[] {
+  const { text, spanStarts } = layout;
+  const starts: number[] = [];
+  if (scope === 'line') {
+    for (let i = text.indexOf('\n'); i >= 0; i = text.indexOf('\n', i + 1)) starts.push(i + 1);
+  } else if (scope === 'paragraph') {
+    starts.push(...paragraphStarts(spans, spanStarts));
+  }
+  return starts;
+}
+
+/**
+ * Evaluate a boolean query on one page. Returns the matches of the terms that
+ * make the expression true, per scope unit (`options.queryScope`: page,
+ * paragraph or line). NEAR/n pairs distinct occurrences with at most n words
+ * between them in a unit. Paragraphs are told apart by blank lines and by
+ * vertical gaps between lines (see `paragraphStarts`).
+ *
+ * Terms use the other search options (case, fuzzy, whole word, ...);
+ * `regex` and `crossPage` do not apply. Throws an Error for a malformed query.
+ */
+export function searchBooleanPage(
+  spans: TextSpan[],
+  query: string,
+  options: SearchOptions = {}
+): PageMatch[] {
+  const root = parseBooleanQuery(query);
+  const termOptions: SearchOptions = { ...options, regex: false, crossPage: false };
+
+  const layout = layoutPageText(spans);
+  const { text, spanStarts } = layout;
+  const units = unitStarts(spans, layout, options.queryScope ?? 'page');
+  const wordStarts = Array.from(text.matchAll(WORD), (m) => m.index!);
+
+  const locate = (match: PageMatch, start: number, end: number): Occurrence => ({
+    match,
+    start,
+    end,
+    unit: countUpTo(units, start),
+    firstWord: countUpTo(wordStarts, start) - 1,
+    lastWord: countUpTo(wordStarts, end - 1) - 1,
+  });
+
+  const findTerm = (term: string): Occurrence[] =>
+    searchPageMatches(spans, term, termOptions).map((match) => {
+      const first = match.ranges[0];
+      const last = match.ranges[match.ranges.length - 1];
+      return locate(match, spanStarts[first.spanIdx] + first.start, spanStarts[last.spanIdx] + last.end);
+    });
+
+  /**
+   * Runs of the phrase words in consecutive words of one unit, as one match
+   * each. Words meet at word boundaries; the phrase ends follow the options.
+   */
+  const findPhrase = (words: string[]): Occurrence[] => {
+    let runs = findTerm(words[0]).map((hit) => ({ first: hit, last: hit, distance: hit.match.distance }));
+    for (const word of words.slice(1)) {
+      const byFirstWord = new Map<number, Occurrence[]>();
+      for (const hit of findTerm(word)) {
+        if (!byFirstWord.has(hit.firstWord)) byFirstWord.set(hit.firstWord, []);
+        byFirstWord.get(hit.firstWord)!.push(hit);
+      }
+      runs = runs.flatMap((run) =>
+        (byFirstWord.get(run.last.lastWord + 1) ?? [])
+          .filter(
+            (hit) =>
+              hit.unit === run.first.unit &&
+              hit.start === wordStarts[hit.firstWord] &&
+              !WORD_CHAR.test(text[run.last.end] ?? '')
+          )
+          .map((hit) => ({ first: run.first, last: hit, distance: run.distance + hit.match.distance }))
+      );
+    }
+    return runs.map(({ first, last, distance }) =>
+      locate({ ranges: rangesForOffsets(layout, spans, first.start, last.end), distance }, first.start, last.end)
+    );
+  };
+
+  // Occurrences of each term and phrase, grouped by unit
+  const termHits = new Map<QueryNode, Map<number, Occurrence[]>>();
+  const activeUnits = new Set<number>();
+  const collectTerms = (node: QueryNode): void => {
+    if (node.type === 'term' || node.type === 'phrase') {
+      const byUnit = new Map<number, Occurrence[]>();
+      for (const occurrence of node.type === 'term' ? findTerm(node.text) : findPhrase(node.words)) {
+        if (!byUnit.has(occurrence.unit)) byUnit.set(occurrence.unit, []);
+        byUnit.get(occurrence.unit)!.push(occurrence);
+        activeUnits.add(occurrence.unit);
+      }
+      termHits.set(node, byUnit);
+    } else if (node.type === 'not') {
+      collectTerms(node.child);
+    } else if (node.type === 'near') {
+      collectTerms(node.left);
+      collectTerms(node.right);
+    } else {
+      node.children.forEach(collectTerms);
+    }
+  };
+  collectTerms(root);
+
+  /** Occurrences to highlight if `node` holds in `unit`, else null. */
+  const evaluate = (node: QueryNode, unit: number): Occurrence[] | null => {
+    switch (node.type) {
+      case 'term':
+      case 'phrase': {
+        const hits = termHits.get(node)!.get(unit);
+        return hits && hits.length > 0 ? hits : null;
+      }
+      case 'not':
+        return evaluate(node.child, unit) ? null : [];
+      case 'and': {
+        const hits: Occurrence[] = [];
+        for (const child of node.children) {
+          const childHits = evaluate(child, unit);
+          if (!childHits) return null;
+          hits.push(...childHits);
+        }
+        return hits;
+      }
+      case 'or': {
+        let hits: Occurrence[] | null = null;
+        for (const child of node.children) {
+          const childHits = evaluate(child, unit);
+          if (childHits) hits = [...(hits ?? []), ...childHits];
+        }
+        return hits;
+      }
+      case 'near': {
+        const left = evaluate(node.left, unit);
+        const right = evaluate(node.right, unit);
+        if (!left || !right) return null;
+        const hits = new Set<Occurrence>();
+        for (const a of left) {
+          for (const b of right) {
+            // An occurrence is not near itself (`x NEAR/n x`), nor one it overlaps
+            if (a.start < b.end && b.start < a.end) continue;
+            // Adjacent words are 1 apart, with 0 words between them
+            const gap = Math.max(b.firstWord - a.lastWord, a.firstWord - b.lastWord);
+            if (gap - 1 <= node.distance) hits.add(a).add(b);
+          }
+        }
+        return hits.size > 0 ? [...hits] : null;
+      }
+    }
+  };
+
+  // Units without any term cannot produce highlights
+  const seen = new Set<string>();
+  const result: Occurrence[] = [];
+  for (const unit of activeUnits) {
+    for (const hit of evaluate(root, unit) ?? []) {
+      const key = `${hit.start}:${hit.end}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      result.push(hit);
+    }
+  }
+  return result.sort((a, b) => a.start - b.start || a.end - b.end).map((hit) => hit.match);
+}
@@ -1,5 +1,7 @@
-import type { SearchMatch, SpanData, PageData } from '../types';
+import type { SearchMatch, SpanData, PageData, HighlightMode } from '../types';
 import type { MatchRange } from './SearchEngine';
+import { getMatchGeometry } from './MatchGeometry';
+import { DEFAULT_CLASS_NAMES } from './constants';
 
 /**
  * Manages cross-span highlighting using the charMap approach.
@@ -8,21 +10,59 @@ import type { MatchRange } from './SearchEngine';
  * 1. Group match ranges by spanIdx
  * 2. For each affected span, replace textContent with a DocumentFragment:
  *    - Plain text nodes for non-matching parts
- *    - <mark> elements for matching parts
+ *    - <mark> elements for matching parts — overlapping matches are nested
+ *      (`<mark><mark>…</mark></mark>`), so every match keeps its own marks
  * 3. Collect marks per match for navigation
+ *
+ * In `overlay` mode, each match is instead drawn as absolutely positioned
+ * rectangles (from the text item geometry) in a layer over the page, and the
+ * spans are left alone. The rectangles take the place of the marks, so
+ * navigation and the active class work the same.
  */
+
+export interface HighlightManagerOptions {
+  /** `<mark>`s in the spans (default) or rectangles over the text layer. */
+  mode?: HighlightMode;
+  /** Class of the rectangle layer in `overlay` mode. Default: 'psh-highlight-layer' */
+  layerClass?: string;
+}
+
+/** `data-layer` of the rectangle layer (its class is configurable). */
+const HIGHLIGHT_LAYER = 'highlights';
+
+/** A match range within one span. */
+interface SpanRange {
+  start: number;
+  end: number;
+  matchIdx: number;
+}
+
+/** Outer (earlier, then longer) ranges first. */
+function compareRanges(a: SpanRange, b: SpanRange): number {
+  return a.start - b.start || b.end - a.end;
+}
 export class HighlightManager {
   private matches: SearchMatch[] = [];
   private currentMatch = -1;
   private highlightClass: string;
   private activeHighlightClass: string;
+  private layerClass: string;
+
+  /** How highlights are drawn by `renderPage`. */
+  readonly mode: HighlightMode;
 
   /** Whether to auto-scroll to the active match. Defaults to true. */
   autoScroll = true;
 
-  constructor(highlightClass: string, activeHighlightClass: string) {
+  constructor(
+    highlightClass: string,
+    activeHighlightClass: string,
+    options: HighlightManagerOptions = {}
+  ) {
     this.highlightClass = highlightClass;
     this.activeHighlightClass = activeHighlightClass;
+    this.mode = options.mode ?? 'marks';
+    this.layerClass = options.layerClass ?? DEFAULT_CLASS_NAMES.highlightLayer;
   }
 
   /**
@@ -31,23 +71,59 @@ export class HighlightManager {
    *
    * @param classPerMatch - Optional per-match CSS class names (for multi-context search).
    *   When provided, `classPerMatch[i]` is the CSS class for `matchRanges[i]`.
-   *   When omitted, all matches use the default highlight class.
+   *   Matches without one (or all, when omitted) use the default highlight class.
+   * @param colorPerMatch - Optional per-match colors, set on the marks as the
+   *   `--psh-ctx-color` custom property (used by the `highlight-*` styles).
    */
   applyHighlights(
     pageSpans: SpanData[],
     matchRanges: MatchRange[][],
-    classPerMatch?: string[]
+    classPerMatch?: Array<string | undefined>,
+    colorPerMatch?: Array<string | null | undefined>
   ): SearchMatch[] {
+    return this.renderMarks(pageSpans, matchRanges, classPerMatch, colorPerMatch)
+      .filter((marks) => marks.length > 0)
+      .map((marks) => ({ marks }));
+  }
+
+  /**
+   * Draw the matches of a page in the manager's `mode` and return the
+   * elements of every match aligned with `matchRanges`, like renderMarks.
+   * In `overlay` mode, the page's previous rectangles are replaced, and a
+   * page without viewport or text item positions falls back to marks.
+   */
+  renderPage(
+    pageData: PageData,
+    matchRanges: MatchRange[][],
+    classPerMatch?: Array<string | undefined>,
+    colorPerMatch?: Array<string | null | undefined>
+  ): HTMLElement[][] {
+    if (this.mode === 'overlay') {
+      const rects = this.renderRects(pageData, matchRanges, classPerMatch, colorPerMatch);
+      if (rects) return rects;
+      this.findLayer(pageData)?.remove();
+    }
+    return this.renderMarks(pageData.spans, matchRanges, classPerMatch, colorPerMatch);
+  }
+
+  /**
+   * Same as applyHighlights, but returns the <mark> elements of every match
+   * aligned with `matchRanges` (empty when a match got no marks).
+   */
+  renderMarks(
+    pageSpans: SpanData[],
+    matchRanges: MatchRange[][],
+    classPerMatch?: Array<string | undefined>,
+    colorPerMatch?: Array<string | null | undefined>
+  ): HTMLElement[][] {
     if (!matchRanges.length) return [];
 
     // Group ranges by spanIdx, keeping track of which match they belong to
-    const spanRanges: Record<
-      number,
-      { start: number; end: number; matchIdx: number }[]
-    > = {};
+    const spanRanges: Record<number, SpanRange[]> = {};
 
     matchRanges.forEach((range, mi) => {
       range.forEach((r) => {
+        if (r.end <= r.start) return;
         if (!spanRanges[r.spanIdx]) spanRanges[r.spanIdx] = [];
         spanRanges[r.spanIdx].push({ start: r.start, end: r.end, matchIdx: mi });
       });
@@ -60,44 +136,126 @@ export class HighlightManager {
     for (const siStr of Object.keys(spanRanges)) {
       const si = parseInt(siStr, 10);
       const s = pageSpans[si];
-      const ranges = spanRanges[si].sort((a, b) => a.start - b.start);
 
       const frag = document.createDocumentFragment();
-      let last = 0;
+      this.appendMarks(frag, s.text, spanRanges[si], 0, s.text.length, matchMarks, classPerMatch, colorPerMatch);
 
-      for (const r of ranges) {
-        const actualStart = Math.max(r.start, last);
+      // Replace span content
+      s.el.textContent = '';
+      s.el.appendChild(frag);
+    }
 
-        // Add plain text before highlight
-        if (actualStart > last) {
-          frag.appendChild(document.createTextNode(s.text.slice(last, actualStart)));
-        }
+    return matchMarks;
+  }
 
-        // Add highlight mark
-        if (actualStart < r.end) {
-          const mark = document.createElement('mark');
-          mark.className = classPerMatch?.[r.matchIdx] ?? this.highlightClass;
-          mark.textContent = s.text.slice(actualStart, r.end);
-          frag.appendChild(mark);
-          matchMarks[r.matchIdx].push(mark);
-        }
+  /**
+   * Draw each match as rectangles in a layer over the page, replacing the
+   * previous one. All rects are measured before the DOM is changed. Returns
+   * null (drawing nothing) if the page has no viewport or a span has no position.
+   */
+  private renderRects(
+    pageData: PageData,
+    matchRanges: MatchRange[][],
+    classPerMatch?: Array<string | undefined>,
+    colorPerMatch?: Array<string | null | undefined>
+  ): HTMLElement[][] | null {
+    const { viewport, spans } = pageData;
+    if (!viewport) return null;
+
+    const geometry = matchRanges.map((ranges) =>
+      getMatchGeometry([{ pageIndex: 0, ranges }], () => spans, () => viewport)
+    );
+    if (geometry.some((g) => !g)) return null;
+
+    const layer = document.createElement('div');
+    layer.className = this.layerClass;
+    layer.dataset.layer = HIGHLIGHT_LAYER;
+    layer.style.position = 'absolute';
+    layer.style.inset = '0';
+    layer.style.pointerEvents = 'none';
+
+    const matchRects = geometry.map((g, mi) =>
+      (g![0].rects ?? []).map((rect) => {
+        const el = document.createElement('div');
+        el.className = classPerMatch?.[mi] ?? this.highlightClass;
+        const color = colorPerMatch?.[mi];
+        if (color) el.style.setProperty('--psh-ctx-color', color);
+        el.style.position = 'absolute';
+        el.style.left = rect.x + 'px';
+        el.style.top = rect.y + 'px';
+        el.style.width = rect.width + 'px';
+        el.style.height = rect.height + 'px';
+        layer.appendChild(el);
+        return el;
+      })
+    );
+    const previous = this.findLayer(pageData);
+    if (layer.childElementCount === 0) previous?.remove();
+    else if (previous) previous.replaceWith(layer);
+    else pageData.container.appendChild(layer);
+    return matchRects;
+  }
+
+  /** The rectangle layer of a page, if drawn. */
+  private findLayer(pageData: PageData): HTMLElement | null {
+    return pageData.container.querySelector(`:scope > [data-layer="${HIGHLIGHT_LAYER}"]`);
+  }
+
+  /**
+   * Append text[from, to) to `parent`, wrapping `ranges` (all within it) in marks.
+   * A range overlapping an earlier one is nested inside it up to its end, and
+   * continues as a sibling mark after that.
+   */
+  private appendMarks(
+    parent: Node,
+    text: string,
+    ranges: SpanRange[],
+    from: number,
+    to: number,
+    matchMarks: HTMLElement[][],
+    classPerMatch?: Array<string | undefined>,
+    colorPerMatch?: Array<string | null | undefined>
+  ): void {
+    let queue = [...ranges].sort(compareRanges);
+    let pos = from;
 
-        last = Math.max(last, r.end);
+    while (queue.length > 0) {
+      const r = queue.shift()!;
+
+      // Add plain text before highlight
+      if (r.start > pos) {
+        parent.appendChild(document.createTextNode(text.slice(pos, r.start)));
       }
 
-      // Add remaining plain text
-      if (last < s.text.length) {
-        frag.appendChild(document.createTextNode(s.text.slice(last)));
+      // Ranges starting inside this one are nested; their overflow comes after
+      const inner: SpanRange[] = [];
+      const rest: SpanRange[] = [];
+      for (const o of queue) {
+        if (o.start < r.end) {
+          inner.push({ ...o, end: Math.min(o.end, r.end) });
+          if (o.end > r.end) rest.push({ ...o, start: r.end });
+        } else {
+          rest.push(o);
+        }
       }
 
-      // Replace span content
-      s.el.textContent = '';
-      s.el.appendChild(frag);
+      // Add highlight mark
+      const mark = document.createElement('mark');
+      mark.className = classPerMatch?.[r.matchIdx] ?? this.highlightClass;
+      const color = colorPerMatch?.[r.matchIdx];
+      if (color) mark.style.setProperty('--psh-ctx-color', color);
+      matchMarks[r.matchIdx].push(mark);
+      this.appendMarks(mark, text, inner, r.start, r.end, matchMarks, classPerMatch, colorPerMatch);
+      parent.appendChild(mark);
+
+      pos = r.end;
+      queue = rest.sort(compareRanges);
     }
 
-    return matchMarks
-      .filter((marks) => marks.length > 0)
-      .map((marks) => ({ marks }));
+    // Add remaining plain text
+    if (pos < to) {
+      parent.appendChild(document.createTextNode(text.slice(pos, to)));
+    }
   }
 
   /**
@@ -107,23 +265,44 @@ export class HighlightManager {
     this.matches.push(...newMatches);
   }
 
+  /**
+   * Replace the match list without touching the DOM.
+   * The active match is kept if it is still in the list.
+   */
+  setMatches(matches: SearchMatch[]): void {
+    const active = this.matches[this.currentMatch];
+    this.matches = matches;
+    this.currentMatch = active ? matches.indexOf(active) : -1;
+  }
+
   /**
    * Clear all highlights and restore original span text.
    */
   clearHighlights(allPageData: PageData[]): void {
-    allPageData.forEach((pd) => {
-      pd.spans.forEach((s) => {
-        s.el.textContent = s.text;
-      });
-    });
+    allPageData.forEach((pd) => this.restorePage(pd));
     this.matches = [];
     this.currentMatch = -1;
   }
 
+  /**
+   * Restore original span text (and remove the rectangle layer) on one page.
+   * Does not touch the match list. In `overlay` mode, spans are only restored
+   * if a page fell back to marks.
+   */
+  restorePage(pageData: PageData): void {
+    this.findLayer(pageData)?.remove();
+    if (this.mode === 'overlay' && !pageData.container.querySelector('mark')) return;
+    pageData.spans.forEach((s) => {
+      s.el.textContent = s.text;
+    });
+  }
+
   /**
    * Set active match by index. Applies active CSS class and scrolls into view.
+   *
+   * @param scroll - Scroll the first mark into view. Defaults to `autoScroll`.
    */
-  setActiveMatch(index: number): void {
+  setActiveMatch(index: number, scroll: boolean = this.autoScroll): void {
     // Remove active class from previous
     if (this.currentMatch >= 0 && this.currentMatch < this.matches.length) {
       this.matches[this.currentMatch].marks.forEach((m) =>
@@ -138,7 +317,7 @@ export class HighlightManager {
         m.classList.add(this.activeHighlightClass)
       );
       // Scroll first mark into view
-      if (this.autoScroll) {
+      if (scroll) {
         this.matches[index].marks[0]?.scrollIntoView({
           behavior: 'smooth',
           block: 'center',
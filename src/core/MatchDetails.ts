@@ -0,0 +1,128 @@
+import type { MatchRange, PageMatchSegment } from './SearchEngine';
+import type { SearchMatch, MatchSnippet, TextSpan } from '../types';
+
+/** Page text plus where each span starts in it. */
+export interface PageTextLayout {
+  text: string;
+  spanStarts: number[];
+}
+
+/**
+ * Text of a page as used for match offsets (`SearchMatch.start`/`end`):
+ * span texts in order, with "\n" after each span that ends a line.
+ */
+export function getPageText(spans: TextSpan[]): string {
+  return layoutPageText(spans).text;
+}
+
+export function layoutPageText(spans: TextSpan[]): PageTextLayout {
+  let text = '';
+  const spanStarts: number[] = [];
+  for (const s of spans) {
+    spanStarts.push(text.length);
+    text += s.hasEOL ? s.text + '\n' : s.text;
+  }
+  return { text, spanStarts };
+}
+
+/**
+ * Span ranges covering page text offsets [start, end) — the inverse of
+ * `SearchMatch.start`/`end`. Line ends ("\n") get no range.
+ */
+export function rangesForOffsets(
+  layout: PageTextLayout,
+  spans: TextSpan[],
+  start: number,
+  end: number
+): MatchRange[] {
+  const ranges: MatchRange[] = [];
+  spans.forEach((s, spanIdx) => {
+    const spanStart = layout.spanStarts[spanIdx];
+    const from = Math.max(start, spanStart) - spanStart;
+    const to = Math.min(end, spanStart + s.text.length) - spanStart;
+    if (to > from) ranges.push({ spanIdx, start: from, end: to });
+  });
+  return ranges;
+}
+
+/** Offsets of a segment in its page text. */
+function segmentBounds(seg: PageMatchSegment, layout: PageTextLayout): [number, number] {
+  const first = seg.ranges[0];
+  const last = seg.ranges[seg.ranges.length - 1];
+  return [
+    layout.spanStarts[first.spanIdx] + first.start,
+    layout.spanStarts[last.spanIdx] + last.end,
+  ];
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ');
+}
+
+function buildSnippet(
+  startText: string,
+  start: number,
+  endText: string,
+  end: number,
+  matchText: string,
+  length: number
+): MatchSnippet {
+  // Widen to the context length, then back off to whole words
+  let from = Math.max(0, start - length);
+  if (from > 0 && !/\s/.test(startText[from - 1])) {
+    const space = startText.slice(from, start).search(/\s/);
+    from = space >= 0 ? from + space + 1 : start;
+  }
+  let to = Math.min(endText.length, end + length);
+  if (to < endText.length && !/\s/.test(endText[to])) {
+    const space = endText.slice(end, to).search(/\s\S*$/);
+    to = space >= 0 ? end + space : end;
+  }
+
+  const before = collapse(startText.slice(from, start)).trimStart();
+  const after = collapse(endText.slice(end, to)).trimEnd();
+  return {
+    before: from > 0 && before ? `…${before}` : before,
+    text: collapse(matchText),
+    after: to < endText.length && after ? `${after}…` : after,
+  };
+}
+
+/**
+ * Position, text and snippet of a match from its segments.
+ * `getLayout(pageIndex)` returns the layout of the text the match was found in.
+ */
+export function describeMatch(
+  segments: PageMatchSegment[],
+  getLayout: (pageIndex: number) => PageTextLayout,
+  snippetLength: number
+): Omit<SearchMatch, 'marks' | 'contextIndex' | 'distance' | 'score' | 'geometry'> {
+  const firstSeg = segments[0];
+  const lastSeg = segments[segments.length - 1];
+  const parts = segments.map((seg) => {
+    const layout = getLayout(seg.pageIndex);
+    const [from, to] = segmentBounds(seg, layout);
+    return { layout, from, to };
+  });
+  const first = parts[0];
+  const last = parts[parts.length - 1];
+
+  // A cross-page match reads on from the end of one page to the next
+  const text = parts
+    .map((p, k) =>
+      k < parts.length - 1
+        ? p.layout.text.slice(p.from).replace(/\n$/, '')
+        : p.layout.text.slice(p.from, p.to)
+    )
+    .join('\n');
+
+  return {
+    pageIndex: firstSeg.pageIndex,
+    pageNumber: firstSeg.pageIndex + 1,
+    endPageIndex: lastSeg.pageIndex,
+    start: first.from,
+    end: last.to,
+    text,
+    snippet: buildSnippet(first.layout.text, first.from, last.layout.text, last.to, text, snippetLength),
+  };
+}
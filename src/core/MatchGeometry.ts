@@ -0,0 +1,216 @@
+import type { MatchRange, PageMatchSegment } from './SearchEngine';
+import type { MatchPageGeometry, MatchRect, PageViewport, SpanData, TextSpan } from '../types';
+
+type Point = [number, number];
+
+/** Apply a `[a, b, c, d, e, f]` matrix to a point. */
+function applyTransform([x, y]: Point, m: number[]): Point {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+/** Inverse of a `[a, b, c, d, e, f]` matrix, null if it has none. */
+function invertTransform([a, b, c, d, e, f]: number[]): number[] | null {
+  const det = a * d - b * c;
+  if (det === 0) return null;
+  return [d / det, -b / det, -c / det, a / det, (c * f - d * e) / det, (b * e - a * f) / det];
+}
+
+/** Smallest rect containing the points. */
+function boundingRect(points: Point[]): MatchRect {
+  const xs = points.map((p) => p[0]);
+  const ys = points.map((p) => p[1]);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * Point of a text item in PDF user space, `offset` chars along the baseline
+ * and `height` (in font sizes) up. The item's advance width is split evenly
+ * over its chars — exact at the item's ends, an estimate in between (see
+ * `measuredCorners`). Null if the item has no position.
+ */
+function spanLocator(span: TextSpan): ((offset: number, height: number) => Point) | null {
+  const m = span.transform;
+  if (!m || span.width === undefined || span.text.length === 0) return null;
+
+  const fontSize = Math.hypot(m[2], m[3]);
+  const scaleX = Math.hypot(m[0], m[1]);
+  if (fontSize === 0 || scaleX === 0) return null;
+
+  // Unit vectors along the baseline and towards the top of the glyphs
+  const dir: Point = [m[0] / scaleX, m[1] / scaleX];
+  const up: Point = [m[2] / fontSize, m[3] / fontSize];
+  const charWidth = span.width / span.text.length;
+
+  return (offset, height) => [
+    m[4] + dir[0] * offset * charWidth + up[0] * height * fontSize,
+    m[5] + dir[1] * offset * charWidth + up[1] * height * fontSize,
+  ];
+}
+
+/**
+ * Chars along the baseline of a text item from its origin to the foot of
+ * `point` (PDF user space): the inverse of `spanLocator` along the baseline.
+ * Only for items `spanLocator` can place.
+ */
+function baselineOffset(span: TextSpan, [x, y]: Point): number {
+  const m = span.transform!;
+  const scaleX = Math.hypot(m[0], m[1]);
+  const charWidth = span.width! / span.text.length;
+  return ((x - m[4]) * m[0] + (y - m[5]) * m[1]) / scaleX / charWidth;
+}
+
+/** Text node and offset of char `offset` of an element (which may hold marks). */
+function textPoint(el: HTMLElement, offset: number): [Node, number] | null {
+  const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+  let remaining = offset;
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const length = node.textContent?.length ?? 0;
+    if (remaining <= length) return [node, remaining];
+    remaining -= length;
+  }
+  return null;
+}
+
+/**
+ * Corners of chars [start, end) of a rendered span in PDF user space,
+ * measured in the text layer, so proportional fonts line up. Null if the
+ * span is not laid out (or the page has no viewport).
+ */
+function measuredCorners(
+  span: TextSpan,
+  start: number,
+  end: number,
+  viewport: PageViewport | undefined
+): Point[] | null {
+  const el = (span as Partial<SpanData>).el;
+  const layer = el?.parentElement;
+  const toPDF = viewport && invertTransform(viewport.transform);
+  if (!el?.isConnected || !layer || !toPDF) return null;
+
+  const from = textPoint(el, start);
+  const to = textPoint(el, end);
+  if (!from || !to) return null;
+  const range = document.createRange();
+  range.setStart(...from);
+  range.setEnd(...to);
+  const rects = Array.from(range.getClientRects()).filter((r) => r.width > 0 && r.height > 0);
+  if (rects.length === 0) return null;
+
+  // Client pixels → viewport pixels (the layer may be resized by a zoom preview) → PDF
+  const box = layer.getBoundingClientRect();
+  if (box.width === 0) return null;
+  const ratio = viewport.width / box.width;
+  const left = Math.min(...rects.map((r) => r.left));
+  const top = Math.min(...rects.map((r) => r.top));
+  const right = Math.max(...rects.map((r) => r.right));
+  const bottom = Math.max(...rects.map((r) => r.bottom));
+  const corners: Point[] = [
+    [left, bottom],
+    [right, bottom],
+    [right, top],
+    [left, top],
+  ];
+  return corners.map(([x, y]) => applyTransform([(x - box.left) * ratio, (y - box.top) * ratio], toPDF));
+}
+
+/**
+ * Corners of chars [start, end) of a text item in PDF user space. The box
+ * spans from the baseline up one font size — the same box the text layer
+ * span covers. A whole item is placed by its matrix and advance width alone;
+ * where part of a rendered span is matched, only the ends of that part are
+ * measured in the text layer (the box stays on the baseline). Others are
+ * estimated.
+ */
+function rangeCorners(
+  span: TextSpan,
+  start: number,
+  end: number,
+  viewport?: PageViewport
+): Point[] | null {
+  const at = spanLocator(span);
+  if (!at) return measuredCorners(span, start, end, viewport);
+
+  let from = start;
+  let to = end;
+  if (start > 0 || end < span.text.length) {
+    const measured = measuredCorners(span, start, end, viewport);
+    if (measured) {
+      const offsets = measured.map((p) => baselineOffset(span, p));
+      from = Math.min(...offsets);
+      to = Math.max(...offsets);
+    }
+  }
+  return [at(from, 0), at(to, 0), at(to, 1), at(from, 1)];
+}
+
+function containsPoint(rect: MatchRect, [x, y]: Point): boolean {
+  return x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height;
+}
+
+/**
+ * Ranges of the chars whose center lies inside one of `rects` (PDF points).
+ * Spans without a position are skipped.
+ */
+export function findRangesInRects(spans: TextSpan[], rects: MatchRect[]): MatchRange[] {
+  const ranges: MatchRange[] = [];
+  spans.forEach((span, spanIdx) => {
+    const at = spanLocator(span);
+    if (!at) return;
+    let start = -1;
+    for (let i = 0; i <= span.text.length; i++) {
+      const inside =
+        i < span.text.length && rects.some((rect) => containsPoint(rect, at(i + 0.5, 0.5)));
+      if (inside && start < 0) {
+        start = i;
+      } else if (!inside && start >= 0) {
+        ranges.push({ spanIdx, start, end: i });
+        start = -1;
+      }
+    }
+  });
+  return ranges;
+}
+
+/**
+ * Bounding boxes of a match's segments, in PDF points and (when the page has a
+ * viewport) in viewport pixels. Returns null when the spans carry no position
+ * (text items without `transform`/`width`).
+ *
+ * @param getSpans - Spans of a page, as searched.
+ * @param getViewport - Viewport of a page, if known.
+ */
+export function getMatchGeometry(
+  segments: PageMatchSegment[],
+  getSpans: (pageIndex: number) => TextSpan[] | null,
+  getViewport: (pageIndex: number) => PageViewport | undefined
+): MatchPageGeometry[] | null {
+  const geometry: MatchPageGeometry[] = [];
+  for (const seg of segments) {
+    const spans = getSpans(seg.pageIndex);
+    const viewport = getViewport(seg.pageIndex);
+    const pdfRects: MatchRect[] = [];
+    const rects: MatchRect[] = [];
+
+    for (const r of seg.ranges) {
+      const span = spans?.[r.spanIdx];
+      const corners = span && r.end > r.start ? rangeCorners(span, r.start, r.end, viewport) : null;
+      if (!corners) {
+        if (span && r.end > r.start) return null;
+        continue;
+      }
+      pdfRects.push(boundingRect(corners));
+      if (viewport) {
+        rects.push(boundingRect(corners.map((p) => applyTransform(p, viewport.transform))));
+      }
+    }
+
+    geometry.push(
+      viewport
+        ? { pageIndex: seg.pageIndex, pdfRects, rects, rotation: viewport.rotation }
+        : { pageIndex: seg.pageIndex, pdfRects }
+    );
+  }
+  return geometry;
+}
@@ -0,0 +1,170 @@
+import { DEFAULT_HIGHLIGHT_COLOR } from './constants';
+import type { ExportHighlight, MatchRect } from '../types';
+
+// pdf-lib types
+type PDFLib = any;
+
+/** The parts of a pdf-lib `PDFDocument` used to add annotations. */
+interface PDFLibDocument {
+  context: {
+    stream(contents: string, dict: Record<string, unknown>): unknown;
+    obj(literal: Record<string, unknown>): unknown;
+    register(object: unknown): unknown;
+  };
+  getPages(): PDFLibPage[];
+  save(): Promise<Uint8Array>;
+}
+
+/** The part of a pdf-lib `PDFPage` used to add annotations. */
+interface PDFLibPage {
+  node: { addAnnot(ref: unknown): void };
+}
+
+type RGB = [number, number, number];
+
+const HEX_COLOR = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const FUNCTION_COLOR = /^(rgba?|hsla?)\(\s*([^)]*)\)$/i;
+
+/** `50%` → 0.5 × `percentOf`, `12` → 12. */
+function parseComponent(value: string, percentOf: number): number {
+  return value.endsWith('%') ? (parseFloat(value) / 100) * percentOf : parseFloat(value);
+}
+
+function hslToRgb(h: number, s: number, l: number): RGB {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return [f(0) * 255, f(8) * 255, f(4) * 255];
+}
+
+/**
+ * RGB (0–255) and alpha (0–1) of a hex, `rgb()`/`rgba()` or `hsl()`/`hsla()`
+ * color. Other CSS colors (names) are resolved through a canvas when there is
+ * a DOM. Null if the color cannot be read.
+ */
+function parseColor(color: string, resolve = true): { rgb: RGB; alpha: number } | null {
+  const value = color.trim();
+
+  const hex = HEX_COLOR.exec(value)?.[1];
+  if (hex) {
+    const digits = hex.length <= 4 ? [...hex].map((d) => d + d) : hex.match(/../g)!;
+    const [r, g, b, a = 255] = digits.map((d) => parseInt(d, 16));
+    return { rgb: [r, g, b], alpha: a / 255 };
+  }
+
+  const fn = FUNCTION_COLOR.exec(value);
+  if (fn) {
+    const parts = fn[2].split(/[\s,/]+/).filter(Boolean);
+    if (parts.length < 3) return null;
+    const alpha = parts[3] !== undefined ? parseComponent(parts[3], 1) : 1;
+    const rgb: RGB = fn[1].toLowerCase().startsWith('rgb')
+      ? [parseComponent(parts[0], 255), parseComponent(parts[1], 255), parseComponent(parts[2], 255)]
+      : hslToRgb(parseFloat(parts[0]), parseComponent(parts[1], 1), parseComponent(parts[2], 1));
+    if ([...rgb, alpha].some(Number.isNaN)) return null;
+    return { rgb, alpha };
+  }
+
+  if (resolve && typeof document !== 'undefined') {
+    const ctx = document.createElement('canvas').getContext('2d');
+    if (ctx) {
+      ctx.fillStyle = '#000';
+      ctx.fillStyle = value;
+      return parseColor(String(ctx.fillStyle), false);
+    }
+  }
+  return null;
+}
+
+/**
+ * Opaque PDF color (0–1 components) that looks like the CSS color drawn over
+ * white. With the Multiply blend mode the text under it stays readable, as
+ * with the semi-transparent marks in the viewer.
+ */
+function toPDFColor(color: string | undefined): RGB {
+  const parsed = parseColor(color ?? DEFAULT_HIGHLIGHT_COLOR) ?? parseColor(DEFAULT_HIGHLIGHT_COLOR)!;
+  const alpha = Math.min(1, Math.max(0, parsed.alpha));
+  return parsed.rgb.map((c) => {
+    const channel = Math.min(1, Math.max(0, c / 255));
+    return 1 - alpha * (1 - channel);
+  }) as RGB;
+}
+
+function formatNumber(n: number): string {
+  return String(Math.round(n * 100) / 100);
+}
+
+/** Quad points in the order viewers expect: top-left, top-right, bottom-left, bottom-right. */
+function quadPoints(rect: MatchRect): number[] {
+  const top = rect.y + rect.height;
+  const right = rect.x + rect.width;
+  return [rect.x, top, right, top, rect.x, rect.y, right, rect.y];
+}
+
+/** Add one Highlight annotation (with an appearance stream) to a pdf-lib page. */
+function addHighlight(pdfLib: PDFLib, pdfDoc: PDFLibDocument, page: PDFLibPage, highlight: ExportHighlight): void {
+  const rects = highlight.rects.filter((r) => r.width > 0 && r.height > 0);
+  if (rects.length === 0) return;
+
+  const x0 = Math.min(...rects.map((r) => r.x));
+  const y0 = Math.min(...rects.map((r) => r.y));
+  const x1 = Math.max(...rects.map((r) => r.x + r.width));
+  const y1 = Math.max(...rects.map((r) => r.y + r.height));
+  const color = toPDFColor(highlight.color);
+
+  const content = [
+    '/GS0 gs',
+    `${color.map(formatNumber).join(' ')} rg`,
+    ...rects.map((r) => `${[r.x, r.y, r.width, r.height].map(formatNumber).join(' ')} re f`),
+  ].join('\n');
+  const appearance = pdfDoc.context.stream(content, {
+    Type: 'XObject',
+    Subtype: 'Form',
+    BBox: [x0, y0, x1, y1],
+    Resources: { ExtGState: { GS0: { Type: 'ExtGState', BM: 'Multiply' } } },
+  });
+
+  const annotation = pdfDoc.context.obj({
+    Type: 'Annot',
+    Subtype: 'Highlight',
+    Rect: [x0, y0, x1, y1],
+    QuadPoints: rects.flatMap(quadPoints),
+    C: color,
+    F: 4, // Print
+    AP: { N: pdfDoc.context.register(appearance) },
+    ...(highlight.note && { Contents: pdfLib.PDFHexString.fromText(highlight.note) }),
+  });
+  page.node.addAnnot(pdfDoc.context.register(annotation));
+}
+
+/**
+ * Write highlights into a PDF as Highlight annotations, so they show in
+ * Acrobat, Preview and other viewers. Existing annotations are kept.
+ *
+ * Uses `pdf-lib`, passed in like pdfjs-dist. Colors may be any CSS color;
+ * semi-transparent ones are written as the opaque color they show over white.
+ *
+ * ```js
+ * import * as pdfLib from 'pdf-lib';
+ *
+ * const bytes = await exportAnnotatedPDF(pdfLib, await pdfDoc.getData(), [
+ *   { pageIndex: 0, rects: match.geometry[0].pdfRects, color: 'rgba(0, 200, 255, 0.4)' },
+ * ]);
+ * ```
+ */
+export async function exportAnnotatedPDF(
+  pdfLib: PDFLib,
+  data: Uint8Array | ArrayBuffer,
+  highlights: ExportHighlight[]
+): Promise<Uint8Array> {
+  if (!pdfLib?.PDFDocument) {
+    throw new Error('pdf-lib not set. Pass the pdf-lib module (`pdfLib` option) to export highlights.');
+  }
+
+  const pdfDoc: PDFLibDocument = await pdfLib.PDFDocument.load(data);
+  const pages = pdfDoc.getPages();
+  for (const highlight of highlights) {
+    const page = pages[highlight.pageIndex];
+    if (page) addHighlight(pdfLib, pdfDoc, page, highlight);
+  }
+  return pdfDoc.save();
+}
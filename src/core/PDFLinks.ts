@@ -0,0 +1,173 @@
+import type { PageViewport } from 'pdfjs-dist';
+import type { OutlineItem, PDFDestination } from '../types';
+
+// pdfjs-dist types
+type PDFDocumentProxy = any;
+type PDFPageProxy = any;
+
+/** Where a destination points: its page and, when given, a position on it in PDF points. */
+export interface ResolvedDestination {
+  pageNumber: number;
+  left?: number;
+  top?: number;
+}
+
+/** An entry of `pdfDoc.getOutline()`. */
+interface OutlineNode {
+  title?: string;
+  dest?: PDFDestination | null;
+  url?: string | null;
+  bold?: boolean;
+  italic?: boolean;
+  items?: OutlineNode[];
+}
+
+/** The fields of a page annotation (`page.getAnnotations()`) used for links. */
+interface LinkAnnotation {
+  subtype: string;
+  rect: number[];
+  url?: string;
+  dest?: PDFDestination;
+  action?: string;
+}
+
+/** What clicking a link does (see `buildLinkLayer`). */
+export interface LinkHandlers {
+  /** Internal link to a destination. */
+  goToDestination: (dest: PDFDestination) => void;
+  /** External link, with the URL validated by pdf.js. */
+  openUrl: (url: string) => void;
+  /** Named action such as `NextPage` or `LastPage`. */
+  runAction: (action: string) => void;
+}
+
+function numberOrUndefined(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * Resolve a named or explicit destination to its page and position.
+ * Returns null if it does not point to a page of the document.
+ */
+export async function resolveDestination(
+  pdfDoc: PDFDocumentProxy,
+  dest: PDFDestination
+): Promise<ResolvedDestination | null> {
+  try {
+    const explicit = typeof dest === 'string' ? await pdfDoc.getDestination(dest) : dest;
+    if (!Array.isArray(explicit) || explicit.length === 0) return null;
+
+    // The target is a page reference, or a page index in some files
+    const [target, mode] = explicit as [unknown, { name?: string } | undefined];
+    const pageIndex = typeof target === 'number' ? target : await pdfDoc.getPageIndex(target);
+    if (!Number.isInteger(pageIndex) || pageIndex < 0 || pageIndex >= pdfDoc.numPages) return null;
+
+    let left: number | undefined;
+    let top: number | undefined;
+    switch (mode?.name) {
+      case 'XYZ':
+        left = numberOrUndefined(explicit[2]);
+        top = numberOrUndefined(explicit[3]);
+        break;
+      case 'FitH':
+      case 'FitBH':
+        top = numberOrUndefined(explicit[2]);
+        break;
+      case 'FitV':
+      case 'FitBV':
+        left = numberOrUndefined(explicit[2]);
+        break;
+      case 'FitR':
+        left = numberOrUndefined(explicit[2]);
+        top = numberOrUndefined(explicit[5]);
+        break;
+    }
+    return {
+      pageNumber: pageIndex + 1,
+      ...(left !== undefined && { left }),
+      ...(top !== undefined && { top }),
+    };
+  } catch {
+    // Unknown named destination or broken reference
+    return null;
+  }
+}
+
+async function toOutlineItem(pdfDoc: PDFDocumentProxy, item: OutlineNode): Promise<OutlineItem> {
+  const dest: PDFDestination | null = item.dest ?? null;
+  const [resolved, items] = await Promise.all([
+    dest ? resolveDestination(pdfDoc, dest) : null,
+    Promise.all((item.items ?? []).map((child) => toOutlineItem(pdfDoc, child))),
+  ]);
+  return {
+    title: item.title ?? '',
+    pageNumber: resolved?.pageNumber ?? null,
+    dest,
+    url: item.url ?? null,
+    bold: !!item.bold,
+    italic: !!item.italic,
+    items,
+  };
+}
+
+/**
+ * The document outline (bookmarks) as a tree, with each entry's destination
+ * page resolved. Empty if the document has no outline.
+ */
+export async function getDocumentOutline(pdfDoc: PDFDocumentProxy): Promise<OutlineItem[]> {
+  const outline: OutlineNode[] | null = await pdfDoc.getOutline();
+  return outline ? Promise.all(outline.map((item) => toOutlineItem(pdfDoc, item))) : [];
+}
+
+/**
+ * Build a layer of `<a>` elements over the page's link annotations.
+ * Only the links take pointer events, so text selection works around them.
+ * Returns null if the page has no links.
+ */
+export async function buildLinkLayer(
+  page: PDFPageProxy,
+  vp: PageViewport,
+  className: string,
+  handlers: LinkHandlers
+): Promise<HTMLElement | null> {
+  const annotations: LinkAnnotation[] = await page.getAnnotations({ intent: 'display' });
+
+  const layer = document.createElement('div');
+  layer.className = className;
+  layer.style.position = 'absolute';
+  layer.style.inset = '0';
+  layer.style.pointerEvents = 'none';
+
+  for (const annotation of annotations) {
+    if (annotation.subtype !== 'Link') continue;
+    const { url, dest, action } = annotation;
+    if (!url && !dest && !action) continue;
+
+    const [x1, y1, x2, y2] = vp.convertToViewportRectangle(annotation.rect);
+    const link = document.createElement('a');
+    link.style.position = 'absolute';
+    link.style.left = Math.min(x1, x2) + 'px';
+    link.style.top = Math.min(y1, y2) + 'px';
+    link.style.width = Math.abs(x2 - x1) + 'px';
+    link.style.height = Math.abs(y2 - y1) + 'px';
+    link.style.pointerEvents = 'auto';
+
+    if (url) {
+      link.href = url;
+      link.title = url;
+      link.target = '_blank';
+      link.rel = 'noopener noreferrer nofollow';
+    } else {
+      link.href = '#';
+    }
+    link.addEventListener('click', (e) => {
+      e.preventDefault();
+      if (url) handlers.openUrl(url);
+      else if (dest) handlers.goToDestination(dest);
+      else if (action) handlers.runAction(action);
+    });
+    layer.appendChild(link);
+  }
+
+  return layer.childElementCount > 0 ? layer : null;
+}
@@ -1,10 +1,72 @@
-import type { PDFSearchViewerOptions, ClassNames, PageData, SpanData } from '../types';
-import { DEFAULT_CLASS_NAMES, DEFAULT_SCALE, DEFAULT_PAGE_GAP } from './constants';
+import type {
+  PDFSearchViewerOptions,
+  ClassNames,
+  PageData,
+  SpanData,
+  PDFRendererEventMap,
+  PageText,
+  PageViewport,
+  ExportHighlight,
+  OutlineItem,
+  PDFDestination,
+  ZoomMode,
+  ZoomAnchor,
+} from '../types';
+import type { PageViewport as PDFPageViewport, RenderTask } from 'pdfjs-dist';
+import { EventEmitter } from './EventEmitter';
+import { buildTextIndex, isTextLayerItem } from './TextIndex';
+import { exportAnnotatedPDF } from './PDFExport';
+import { buildLinkLayer, getDocumentOutline, resolveDestination } from './PDFLinks';
+import { DEFAULT_CLASS_NAMES, DEFAULT_SCALE, DEFAULT_PAGE_GAP, DEFAULT_RENDER_MARGIN } from './constants';
 
 // pdfjs-dist types
 type PDFDocumentProxy = any;
 type PDFPageProxy = any;
 
+/** Plain copy of a pdf.js viewport (safe to keep and serialize). */
+function toPageViewport(vp: PDFPageViewport): PageViewport {
+  return {
+    width: vp.width,
+    height: vp.height,
+    scale: vp.scale,
+    rotation: vp.rotation,
+    transform: [...vp.transform],
+  };
+}
+
+/** Whether a pdf.js render rejected because its task was cancelled. */
+export function isRenderingCancelled(err: unknown): boolean {
+  return (err as { name?: unknown } | null)?.name === 'RenderingCancelledException';
+}
+
+/** Wait (ms) for a container resize to settle before fitting the pages again. */
+const REFIT_DELAY = 150;
+
+/** Open an external link in a new tab, without giving it access to this page. */
+function openExternalLink(url: string): void {
+  window.open(url, '_blank', 'noopener,noreferrer');
+}
+
+/** Lazy render state of a virtualized page. */
+interface PageSlot {
+  page: PDFPageProxy;
+  viewport: PDFPageViewport;
+  canvas: HTMLCanvasElement | null;
+  renderTask: RenderTask | null;
+  textPending: boolean;
+  /** Canvas of the previous render pass, stretched over the page until `canvas` is drawn. */
+  backdrop: HTMLCanvasElement | null;
+}
+
+/** Where a client point falls on a page, in page units at scale 1. */
+interface PagePoint {
+  pageIndex: number;
+  x: number;
+  y: number;
+  clientX: number;
+  clientY: number;
+}
+
 /**
  * Renders PDF pages into a container using canvas + text layer.
  *
@@ -13,24 +75,63 @@ type PDFPageProxy = any;
  * - Create absolutely-positioned <span> elements overlaying the canvas
  * - Position spans using the transform matrix from pdf.js
  * - Spans are transparent (for text selection) but allow DOM-based search/highlight
+ *
+ * Virtualized mode (`virtualize: true`):
+ * - Placeholders for every page are laid out at their final size right away
+ * - An IntersectionObserver draws canvases near the viewport and frees them when they leave
+ * - Text layers are built on first visit and kept, firing `pagerender`
+ *
+ * Re-renders (zoom) keep the current pages on screen until the new ones are
+ * ready, and `previewScale()` shows a new scale instantly with CSS.
  */
-export class PDFRenderer {
+export class PDFRenderer extends EventEmitter<PDFRendererEventMap> {
   private container: HTMLElement;
-  private scale: number | 'auto';
+  private scale: number | ZoomMode;
   private pageGap: number;
   private cls: Required<ClassNames>;
   private workerSrc?: string;
   private pdfDoc: PDFDocumentProxy | null = null;
   private pageData: PageData[] = [];
+  /** The last `renderAllPages()` call; superseded calls resolve with its pages. */
+  private latestRender: Promise<PageData[]> | null = null;
+  private textIndex: Promise<PageText[]> | null = null;
+  private outline: Promise<OutlineItem[]> | null = null;
   private pdfjsLib: any = null;
+  private pdfLib: any;
   private effectiveScale: number = 1;
+  private virtualize: boolean;
+  private renderMargin: number;
+  private links: boolean;
+  private linkHandler: (url: string) => void;
+  private slots: PageSlot[] = [];
+  private observer: IntersectionObserver | null = null;
+  /** Incremented per render pass so stale async work can bail out. */
+  private generation = 0;
+  /** Most visible page (1-based), 0 when nothing is rendered. */
+  private currentPage = 0;
+  /** Page scrolled to by `goToPage`, kept as current while it is visible. */
+  private requestedPage = 0;
+  private scrollFrame: number | null = null;
+  private scrollListening = false;
+  private resizeObserver: ResizeObserver | null = null;
+  private refitTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Container size (see `fitSignature`) the rendered pages were fitted to. */
+  private fittedTo = '';
+  /** Size of page 1 at scale 1, to tell whether a resize changes the fit. */
+  private firstPageSize: { width: number; height: number } | null = null;
 
   constructor(container: HTMLElement, options: PDFSearchViewerOptions) {
+    super();
     this.container = container;
     this.scale = options.scale ?? DEFAULT_SCALE;
     this.pageGap = options.pageGap ?? DEFAULT_PAGE_GAP;
     this.workerSrc = options.workerSrc;
     this.cls = { ...DEFAULT_CLASS_NAMES, ...options.classNames };
+    this.virtualize = options.virtualize ?? false;
+    this.renderMargin = options.renderMargin ?? DEFAULT_RENDER_MARGIN;
+    this.pdfLib = options.pdfLib;
+    this.links = options.links ?? false;
+    this.linkHandler = options.linkHandler ?? openExternalLink;
   }
 
   /**
@@ -74,47 +175,149 @@ export class PDFRenderer {
 
   /**
    * Render all pages into the container.
-   * Preserves scroll position across re-renders (e.g. zoom).
    * Returns PageData[] for search/highlight.
+   *
+   * On a re-render (e.g. zoom) the current pages stay on screen until the new
+   * ones replace them, and the page point at the top of the view stays there.
+   *
+   * With `virtualize`, every page is laid out as a correctly sized placeholder
+   * and the returned PageData[] starts out with `rendered: false` — canvases and
+   * text layers are drawn as pages approach the viewport (see `pagerender`).
+   *
+   * When a newer call (zoom, another document) supersedes this one before it
+   * finishes, this one resolves with the pages of the newer call.
    */
-  async renderAllPages(): Promise<PageData[]> {
-    if (!this.pdfDoc) throw new Error('No PDF document loaded');
-
-    // Save scroll position relative to total content height
-    const prevScrollTop = this.container.scrollTop;
-    const prevScrollHeight = this.container.scrollHeight || 1;
-    const scrollRatio = prevScrollTop / prevScrollHeight;
+  renderAllPages(): Promise<PageData[]> {
+    const render: Promise<PageData[]> = this.renderPass().then((pages) => {
+      if (pages) return pages;
+      // Superseded by previewScale() with no newer call yet: the pages on screen
+      return this.latestRender !== render && this.latestRender ? this.latestRender : this.pageData;
+    });
+    this.latestRender = render;
+    return render;
+  }
 
-    this.container.innerHTML = '';
-    this.container.classList.add(this.cls.container);
-    this.pageData = [];
+  /** One pass of `renderAllPages()`; null if a newer pass superseded it. */
+  private async renderPass(): Promise<PageData[] | null> {
+    if (!this.pdfDoc) throw new Error('No PDF document loaded');
 
+    const generation = ++this.generation;
     const numPages = this.pdfDoc.numPages;
 
-    for (let i = 1; i <= numPages; i++) {
-      const page = await this.pdfDoc.getPage(i);
-      const pd = await this.renderPage(page, i, numPages);
-      this.pageData.push(pd);
-    }
+    if (this.virtualize) {
+      const pages: PDFPageProxy[] = await Promise.all(
+        Array.from({ length: numPages }, (_, i) => this.pdfDoc.getPage(i + 1))
+      );
+      if (generation !== this.generation) return null;
+
+      const point = this.locatePoint();
+      const backdrops = this.takeBackdrops(numPages);
+      this.releaseSlots();
+      this.container.innerHTML = '';
+      this.container.classList.add(this.cls.container);
+      this.pageData = pages.map((page, i) => {
+        const vp = this.getPageViewport(page, i + 1);
+        const container = this.createPageContainer(vp, i + 1, numPages);
+        // The old drawing, stretched, until the page is drawn at the new scale
+        const backdrop = backdrops[i];
+        if (backdrop) {
+          backdrop.style.position = 'absolute';
+          backdrop.style.top = '0';
+          backdrop.style.left = '0';
+          backdrop.style.width = vp.width + 'px';
+          backdrop.style.height = vp.height + 'px';
+          backdrop.style.transform = '';
+          container.appendChild(backdrop);
+        }
+        this.slots.push({ page, viewport: vp, canvas: null, renderTask: null, textPending: false, backdrop });
+        return { container, spans: [], rendered: false, viewport: toPageViewport(vp) };
+      });
+      this.restorePoint(point);
+      this.observePages();
+    } else if (this.pageData.length === 0) {
+      // First render: show pages as they are drawn
+      this.container.innerHTML = '';
+      this.container.classList.add(this.cls.container);
+
+      for (let i = 1; i <= numPages; i++) {
+        const page = await this.pdfDoc.getPage(i);
+        if (generation !== this.generation) return null;
+        const pd = await this.renderPage(page, i, numPages, this.container);
+        this.pageData.push(pd);
+        this.emit('pagerender', { pageIndex: i - 1, pageData: pd });
+      }
+    } else {
+      // Re-render: draw the pages off-screen and swap them in when all are done
+      const offscreen = document.createElement('div');
+      const pageData: PageData[] = [];
+
+      for (let i = 1; i <= numPages; i++) {
+        const page = await this.pdfDoc.getPage(i);
+        if (generation !== this.generation) return null;
+        const pd = await this.renderPage(page, i, numPages, offscreen);
+        if (generation !== this.generation) return null;
+        pageData.push(pd);
+        this.emit('pagerender', { pageIndex: i - 1, pageData: pd });
+      }
 
-    // Restore scroll position proportionally
-    if (prevScrollTop > 0) {
-      this.container.scrollTop = scrollRatio * this.container.scrollHeight;
+      const point = this.locatePoint();
+      this.container.replaceChildren(...Array.from(offscreen.childNodes));
+      this.container.classList.add(this.cls.container);
+      this.pageData = pageData;
+      this.restorePoint(point);
     }
 
+    this.listenScroll();
+    if (this.followsResize()) this.observeResize();
+    else this.unobserveResize();
+    this.updateCurrentPage();
     return this.pageData;
   }
 
   private async renderPage(
     page: PDFPageProxy,
     pageNum: number,
-    totalPages: number
+    totalPages: number,
+    parent: HTMLElement
   ): Promise<PageData> {
-    const scale = this.calculateScale(page);
-    if (pageNum === 1) this.effectiveScale = scale;
-    const vp = page.getViewport({ scale });
+    const vp = this.getPageViewport(page, pageNum);
+    const container = this.createPageContainer(vp, pageNum, totalPages, parent);
+
+    const canvas = this.createCanvas(vp);
+    container.appendChild(canvas);
+    await page.render({ canvasContext: canvas.getContext('2d')!, viewport: vp }).promise;
 
-    // Page container
+    const { textLayer, spans } = await this.buildTextLayer(page, vp);
+    container.appendChild(textLayer);
+
+    if (this.links) {
+      const linkLayer = await this.buildLinks(page, vp).catch(() => null);
+      if (linkLayer) container.appendChild(linkLayer);
+    }
+
+    return { container, spans, rendered: true, viewport: toPageViewport(vp) };
+  }
+
+  private getPageViewport(page: PDFPageProxy, pageNum: number): PDFPageViewport {
+    const { width, height } = page.getViewport({ scale: 1 });
+    const scale = this.calculateScale(width, height);
+    if (pageNum === 1) {
+      this.effectiveScale = scale;
+      this.firstPageSize = { width, height };
+    }
+    return page.getViewport({ scale });
+  }
+
+  /**
+   * Create the page wrapper (sized to the viewport) and its label,
+   * and append both to `parent` (the container by default).
+   */
+  private createPageContainer(
+    vp: PDFPageViewport,
+    pageNum: number,
+    totalPages: number,
+    parent: HTMLElement = this.container
+  ): HTMLElement {
     const container = document.createElement('div');
     container.className = this.cls.page;
     container.style.position = 'relative';
@@ -124,8 +327,19 @@ export class PDFRenderer {
     container.style.marginBottom = this.pageGap + 'px';
     container.style.overflow = 'hidden';
     container.dataset.page = String(pageNum);
+    parent.appendChild(container);
+
+    // Page label
+    const label = document.createElement('div');
+    label.className = this.cls.pageLabel;
+    label.textContent = `Page ${pageNum} / ${totalPages}`;
+    parent.appendChild(label);
+
+    return container;
+  }
 
-    // Canvas (2x for retina)
+  /** Canvas (2x for retina), with its context pre-scaled. */
+  private createCanvas(vp: PDFPageViewport): HTMLCanvasElement {
     const canvas = document.createElement('canvas');
     canvas.className = this.cls.canvas;
     canvas.width = vp.width * 2;
@@ -133,11 +347,14 @@ export class PDFRenderer {
     canvas.style.width = vp.width + 'px';
     canvas.style.height = vp.height + 'px';
     canvas.style.display = 'block';
-    const ctx = canvas.getContext('2d')!;
-    ctx.scale(2, 2);
-    await page.render({ canvasContext: ctx, viewport: vp }).promise;
+    canvas.getContext('2d')!.scale(2, 2);
+    return canvas;
+  }
 
-    // Text layer
+  private async buildTextLayer(
+    page: PDFPageProxy,
+    vp: PDFPageViewport
+  ): Promise<{ textLayer: HTMLElement; spans: SpanData[] }> {
     const textLayer = document.createElement('div');
     textLayer.className = this.cls.textLayer;
     textLayer.style.position = 'absolute';
@@ -152,7 +369,7 @@ export class PDFRenderer {
     const spans: SpanData[] = [];
 
     for (const item of tc.items) {
-      if (!item.str && !item.hasEOL) continue;
+      if (!isTextLayerItem(item)) continue;
 
       const tx = this.pdfjsLib.Util.transform(vp.transform, item.transform);
       const span = document.createElement('span');
@@ -178,53 +395,535 @@ export class PDFRenderer {
         el: span,
         text: item.str || '',
         hasEOL: !!item.hasEOL,
+        transform: item.transform,
+        width: item.width,
       });
     }
 
-    container.appendChild(canvas);
-    container.appendChild(textLayer);
-    this.container.appendChild(container);
+    return { textLayer, spans };
+  }
 
-    // Page label
-    const label = document.createElement('div');
-    label.className = this.cls.pageLabel;
-    label.textContent = `Page ${pageNum} / ${totalPages}`;
-    this.container.appendChild(label);
+  /**
+   * Watch page placeholders and render/release them as they
+   * enter/leave the viewport (extended by `renderMargin`).
+   */
+  private observePages(): void {
+    const root = this.isScrollContainer() ? this.container : null;
+
+    this.observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          const pageIndex = Number((entry.target as HTMLElement).dataset.page) - 1;
+          if (entry.isIntersecting) {
+            this.activatePage(pageIndex);
+          } else {
+            this.releaseCanvas(pageIndex);
+          }
+        }
+      },
+      { root, rootMargin: `${this.renderMargin}px 0px` }
+    );
+
+    this.pageData.forEach((pd) => this.observer!.observe(pd.container));
+  }
+
+  /** Draw the canvas for a page and, on first visit, build its text layer. */
+  private activatePage(pageIndex: number): void {
+    const slot = this.slots[pageIndex];
+    const pd = this.pageData[pageIndex];
+    if (!slot || !pd) return;
+    const generation = this.generation;
+
+    if (!slot.canvas) {
+      const canvas = this.createCanvas(slot.viewport);
+      slot.canvas = canvas;
+      pd.container.insertBefore(canvas, pd.container.firstChild);
+      const renderTask: RenderTask = slot.page.render({
+        canvasContext: canvas.getContext('2d')!,
+        viewport: slot.viewport,
+      });
+      slot.renderTask = renderTask;
+      renderTask.promise
+        .then(() => {
+          if (slot.canvas === canvas) this.releaseBackdrop(slot);
+        })
+        .catch((err: unknown) => {
+          // Cancelled when the page scrolled away before finishing
+          if (isRenderingCancelled(err)) return;
+          // Document destroyed or page failed — draw again on next visit
+          if (slot.canvas === canvas) {
+            canvas.remove();
+            slot.canvas = null;
+            slot.renderTask = null;
+          }
+          if (generation !== this.generation) return;
+          const error = err instanceof Error ? err : new Error(String(err));
+          this.emit('pageerror', { pageIndex, error });
+        })
+        .finally(() => {
+          if (slot.renderTask === renderTask) slot.renderTask = null;
+        });
+    }
+
+    if (!pd.rendered && !slot.textPending) {
+      slot.textPending = true;
+      this.buildTextLayer(slot.page, slot.viewport).then(({ textLayer, spans }) => {
+        if (generation !== this.generation) return;
+        slot.textPending = false;
+        pd.container.appendChild(textLayer);
+        // Fill in place so references to this PageData stay valid
+        pd.spans.push(...spans);
+        pd.rendered = true;
+        this.emit('pagerender', { pageIndex, pageData: pd });
+        if (this.links) {
+          this.buildLinks(slot.page, slot.viewport).then((linkLayer) => {
+            if (linkLayer && generation === this.generation) pd.container.appendChild(linkLayer);
+          }, () => {});
+        }
+      }).catch(() => {
+        // Document destroyed or page failed — allow a retry on next visit
+        if (generation === this.generation) slot.textPending = false;
+      });
+    }
+  }
 
-    return { container, spans };
+  /** Link layer of a page, wired to this renderer's navigation. */
+  private buildLinks(page: PDFPageProxy, vp: PDFPageViewport): Promise<HTMLElement | null> {
+    return buildLinkLayer(page, vp, this.cls.linkLayer, {
+      goToDestination: (dest) => void this.goToDestination(dest),
+      openUrl: (url) => this.linkHandler(url),
+      runAction: (action) => this.runNamedAction(action),
+    });
   }
 
-  private calculateScale(page: PDFPageProxy): number {
-    if (this.scale !== 'auto' && typeof this.scale === 'number') {
-      return this.scale;
+  /** Page navigation actions of links (other actions are ignored). */
+  private runNamedAction(action: string): void {
+    switch (action) {
+      case 'NextPage':
+        this.nextPage();
+        break;
+      case 'PrevPage':
+        this.prevPage();
+        break;
+      case 'FirstPage':
+        this.goToPage(1);
+        break;
+      case 'LastPage':
+        this.goToPage(this.pageData.length);
+        break;
     }
-    const defaultVp = page.getViewport({ scale: 1 });
-    const containerWidth = this.container.clientWidth || 800;
-    return Math.min(containerWidth / defaultVp.width, 2);
   }
 
-  /** Set the scale for subsequent renders. */
-  setScale(scale: number | 'auto'): void {
+  /** Free a page's canvas memory. The text layer (and its highlights) is kept. */
+  private releaseCanvas(pageIndex: number): void {
+    const slot = this.slots[pageIndex];
+    if (slot) this.releaseBackdrop(slot);
+    if (!slot?.canvas) return;
+    slot.renderTask?.cancel();
+    slot.renderTask = null;
+    slot.canvas.width = 0;
+    slot.canvas.height = 0;
+    slot.canvas.remove();
+    slot.canvas = null;
+  }
+
+  /** Track the current page while the container (or the window) scrolls. */
+  private listenScroll(): void {
+    if (this.scrollListening) return;
+    this.scrollListening = true;
+    this.container.addEventListener('scroll', this.onScroll, { passive: true });
+    window.addEventListener('scroll', this.onScroll, { passive: true });
+    window.addEventListener('resize', this.onScroll);
+  }
+
+  private unlistenScroll(): void {
+    if (!this.scrollListening) return;
+    this.scrollListening = false;
+    this.container.removeEventListener('scroll', this.onScroll);
+    window.removeEventListener('scroll', this.onScroll);
+    window.removeEventListener('resize', this.onScroll);
+    if (this.scrollFrame !== null) cancelAnimationFrame(this.scrollFrame);
+    this.scrollFrame = null;
+  }
+
+  /** Recompute the current page once per frame while scrolling. */
+  private onScroll = (): void => {
+    if (this.scrollFrame !== null) return;
+    this.scrollFrame = requestAnimationFrame(() => {
+      this.scrollFrame = null;
+      this.updateCurrentPage();
+    });
+  };
+
+  /**
+   * Set the current page to the one covering most of the visible part of the
+   * container. A page just scrolled to with `goToPage` stays current while
+   * it is visible (e.g. the last page, which cannot reach the top).
+   */
+  private updateCurrentPage(): void {
+    const pages = this.pageData;
+    // Nothing to track, or the pages are being replaced by a render pass
+    if (pages.length === 0 || !pages[0].container.isConnected) return;
+
+    const { top: viewTop, bottom: viewBottom } = this.visibleBox();
+
+    // Pages are stacked in order: binary search the first one reaching into the view
+    let lo = 0;
+    let hi = pages.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (pages[mid].container.getBoundingClientRect().bottom <= viewTop) lo = mid + 1;
+      else hi = mid;
+    }
+
+    let best = lo;
+    let bestVisible = -Infinity;
+    const requested = this.requestedPage;
+    this.requestedPage = 0;
+    for (let i = lo; i < pages.length; i++) {
+      const rect = pages[i].container.getBoundingClientRect();
+      if (rect.top >= viewBottom && i > lo) break;
+      const visible = Math.min(rect.bottom, viewBottom) - Math.max(rect.top, viewTop);
+      if (i + 1 === requested && visible > 0) {
+        best = i;
+        break;
+      }
+      if (visible > bestVisible) {
+        best = i;
+        bestVisible = visible;
+      }
+    }
+    this.setCurrentPage(best + 1);
+  }
+
+  /** The part of the container inside the window, in client coordinates. */
+  private visibleBox(): { left: number; top: number; right: number; bottom: number } {
+    const box = this.container.getBoundingClientRect();
+    return {
+      left: Math.max(box.left, 0),
+      top: Math.max(box.top, 0),
+      right: Math.min(box.right, window.innerWidth),
+      bottom: Math.min(box.bottom, window.innerHeight),
+    };
+  }
+
+  /** Scale a page is shown at, including a `previewScale()` resize. */
+  private displayedScale(pd: PageData, rect: DOMRect): number {
+    if (!pd.viewport) return 1;
+    const { height, scale } = pd.viewport;
+    return rect.height / (height / scale) || scale;
+  }
+
+  /**
+   * The page point under a client point, by default the top center of the
+   * visible part of the container. Null if no pages are shown.
+   */
+  private locatePoint(anchor?: ZoomAnchor): PagePoint | null {
+    const pages = this.pageData;
+    if (pages.length === 0 || !pages[0].container.isConnected) return null;
+
+    const view = this.visibleBox();
+    const clientX = anchor?.x ?? (view.left + view.right) / 2;
+    const clientY = anchor?.y ?? view.top;
+
+    // First page reaching below the point (pages are stacked in order)
+    let lo = 0;
+    let hi = pages.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (pages[mid].container.getBoundingClientRect().bottom <= clientY) lo = mid + 1;
+      else hi = mid;
+    }
+
+    const rect = pages[lo].container.getBoundingClientRect();
+    const scale = this.displayedScale(pages[lo], rect);
+    return {
+      pageIndex: lo,
+      x: (clientX - rect.left) / scale,
+      y: (clientY - rect.top) / scale,
+      clientX,
+      clientY,
+    };
+  }
+
+  /** Scroll so that a page point from `locatePoint()` is back at its client point. */
+  private restorePoint(point: PagePoint | null): void {
+    const pd = point ? this.pageData[point.pageIndex] : undefined;
+    if (!point || !pd) return;
+
+    const rect = pd.container.getBoundingClientRect();
+    const scale = this.displayedScale(pd, rect);
+    const dx = rect.left + point.x * scale - point.clientX;
+    const dy = rect.top + point.y * scale - point.clientY;
+    if (this.isScrollContainer()) {
+      this.container.scrollLeft += dx;
+      this.container.scrollTop += dy;
+    } else {
+      window.scrollBy(dx, dy);
+    }
+  }
+
+  private setCurrentPage(pageNumber: number): void {
+    if (pageNumber === this.currentPage) return;
+    this.currentPage = pageNumber;
+    this.emit('pagechange', { pageNumber, pageCount: this.getPageCount() });
+  }
+
+  private releaseBackdrop(slot: PageSlot): void {
+    if (!slot.backdrop) return;
+    slot.backdrop.width = 0;
+    slot.backdrop.height = 0;
+    slot.backdrop.remove();
+    slot.backdrop = null;
+  }
+
+  /**
+   * Take the latest drawing of each page (its finished canvas, or else its
+   * backdrop) out of the slots, to show until the next pass draws the page.
+   */
+  private takeBackdrops(numPages: number): Array<HTMLCanvasElement | null> {
+    if (this.slots.length !== numPages) return new Array(numPages).fill(null);
+    return this.slots.map((slot) => {
+      if (slot.canvas && !slot.renderTask) {
+        const canvas = slot.canvas;
+        slot.canvas = null;
+        return canvas;
+      }
+      const backdrop = slot.backdrop;
+      slot.backdrop = null;
+      return backdrop;
+    });
+  }
+
+  private releaseSlots(): void {
+    this.observer?.disconnect();
+    this.observer = null;
+    this.slots.forEach((_, i) => this.releaseCanvas(i));
+    this.slots = [];
+  }
+
+  /** Scale of a page (its size at scale 1) for the current scale or zoom mode. */
+  private calculateScale(pageWidth: number, pageHeight: number): number {
+    if (typeof this.scale === 'number') return this.scale;
+
+    const { width, height } = this.fitBox();
+    switch (this.scale) {
+      case 'page-actual':
+        return 1;
+      case 'page-width':
+        return width / pageWidth;
+      case 'page-height':
+        return height / pageHeight;
+      case 'page-fit':
+        return Math.min(width / pageWidth, height / pageHeight);
+      default:
+        return Math.min(width / pageWidth, 2);
+    }
+  }
+
+  /**
+   * Area the zoom modes fit pages into: the container width, and its height
+   * if it scrolls (otherwise the window's).
+   */
+  private fitBox(): { width: number; height: number } {
+    const height = this.isScrollContainer() ? this.container.clientHeight : window.innerHeight;
+    return { width: this.container.clientWidth || 800, height: height || 800 };
+  }
+
+  /**
+   * Outer size of the fit box. Unlike `fitBox()` it does not change when a
+   * scrollbar appears, so fitting cannot resize the pages back and forth.
+   */
+  private fitSignature(): string {
+    const height = this.isScrollContainer() ? this.container.offsetHeight : window.innerHeight;
+    return `${this.container.offsetWidth}x${height}`;
+  }
+
+  private isScrollContainer(): boolean {
+    const overflowY = getComputedStyle(this.container).overflowY;
+    return overflowY === 'auto' || overflowY === 'scroll';
+  }
+
+  /**
+   * Whether the scale is a fit mode picked by the user ('page-width',
+   * 'page-height', 'page-fit'). The default 'auto' keeps the scale it was
+   * rendered at, so resizing the container does not re-render the pages.
+   */
+  private followsResize(): boolean {
+    return this.scale === 'page-width' || this.scale === 'page-height' || this.scale === 'page-fit';
+  }
+
+  private observeResize(): void {
+    this.fittedTo = this.fitSignature();
+    if (this.resizeObserver || typeof ResizeObserver === 'undefined') return;
+    this.resizeObserver = new ResizeObserver(this.onResize);
+    this.resizeObserver.observe(this.container);
+    window.addEventListener('resize', this.onResize);
+  }
+
+  private unobserveResize(): void {
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+    window.removeEventListener('resize', this.onResize);
+    if (this.refitTimer !== null) clearTimeout(this.refitTimer);
+    this.refitTimer = null;
+  }
+
+  /** Once a resize settles, emit `resize` if the zoom mode now gives another scale. */
+  private onResize = (): void => {
+    if (this.refitTimer !== null) clearTimeout(this.refitTimer);
+    this.refitTimer = setTimeout(() => {
+      this.refitTimer = null;
+      if (!this.followsResize()) return;
+      if (!this.firstPageSize || !this.container.isConnected) return;
+
+      const fittedTo = this.fitSignature();
+      if (fittedTo === this.fittedTo) return;
+      this.fittedTo = fittedTo;
+
+      const scale = this.calculateScale(this.firstPageSize.width, this.firstPageSize.height);
+      if (Math.abs(scale - this.effectiveScale) > 0.001) this.emit('resize', { scale });
+    }, REFIT_DELAY);
+  };
+
+  /** Set the scale or zoom mode for subsequent renders. */
+  setScale(scale: number | ZoomMode): void {
     this.scale = scale;
   }
 
   /** Get the configured scale setting. */
-  getScale(): number | 'auto' {
+  getScale(): number | ZoomMode {
     return this.scale;
   }
 
+  /** The active zoom mode, null for a numeric scale. */
+  getZoomMode(): ZoomMode | null {
+    return typeof this.scale === 'number' ? null : this.scale;
+  }
+
+  /**
+   * Show the scale set with `setScale()` at once by resizing the rendered
+   * pages with CSS — blurry until `renderAllPages()`, which must follow,
+   * draws them again. The page point under `anchor` (by default the top of
+   * the view) stays in place. Can be called repeatedly, e.g. during a pinch.
+   */
+  previewScale(anchor?: ZoomAnchor): void {
+    const point = this.locatePoint(anchor);
+    if (!point) return;
+
+    // Stop drawing at the old scale; the next render pass takes over
+    this.generation++;
+    this.observer?.disconnect();
+    this.observer = null;
+
+    for (const pd of this.pageData) {
+      if (!pd.viewport) continue;
+      const { width, height, scale } = pd.viewport;
+      const ratio = this.calculateScale(width / scale, height / scale) / scale;
+      pd.container.style.width = width * ratio + 'px';
+      pd.container.style.height = height * ratio + 'px';
+      for (const child of Array.from(pd.container.children) as HTMLElement[]) {
+        child.style.transformOrigin = '0 0';
+        child.style.transform = ratio === 1 ? '' : `scale(${ratio})`;
+      }
+    }
+
+    this.restorePoint(point);
+  }
+
   /** Get the actual numeric scale used in the last render. */
   getEffectiveScale(): number {
     return this.effectiveScale;
   }
 
+  /** The most visible page (1-based), 0 when no pages are rendered. */
+  getCurrentPage(): number {
+    return this.currentPage;
+  }
+
+  /**
+   * Scroll a page (1-based, clamped to the document) to the top of the view
+   * and make it the current page. Returns the page number, 0 if no pages.
+   */
+  goToPage(pageNumber: number, behavior: ScrollBehavior = 'auto'): number {
+    const count = this.pageData.length;
+    if (count === 0) return 0;
+    const target = Math.min(Math.max(Math.round(pageNumber), 1), count);
+    this.pageData[target - 1].container.scrollIntoView({ behavior, block: 'start' });
+    this.requestedPage = target;
+    this.setCurrentPage(target);
+    return target;
+  }
+
+  /**
+   * Scroll to a destination (from an outline entry or a link): its page, and
+   * the position on it when the destination has one. Returns the page
+   * number, 0 if the destination cannot be resolved.
+   */
+  async goToDestination(dest: PDFDestination): Promise<number> {
+    if (!this.pdfDoc) return 0;
+    const resolved = await resolveDestination(this.pdfDoc, dest);
+    const pd = resolved && this.pageData[resolved.pageNumber - 1];
+    if (!resolved || !pd) return 0;
+
+    const pageNumber = this.goToPage(resolved.pageNumber);
+    if (resolved.top !== undefined && pd.viewport) {
+      // Scroll a marker at the position to the top; works for any scrolling ancestor
+      const t = pd.viewport.transform;
+      const y = t[1] * (resolved.left ?? 0) + t[3] * resolved.top + t[5];
+      const marker = document.createElement('div');
+      marker.style.position = 'absolute';
+      marker.style.top = Math.min(Math.max(y, 0), pd.viewport.height) + 'px';
+      pd.container.appendChild(marker);
+      marker.scrollIntoView({ block: 'start' });
+      marker.remove();
+    }
+    return pageNumber;
+  }
+
   /**
-   * Download the currently loaded PDF.
+   * The document outline (bookmarks) with destination pages resolved
+   * (cached per document). Empty if the document has none.
    */
-  async download(filename: string = 'document.pdf'): Promise<void> {
+  getOutline(): Promise<OutlineItem[]> {
+    if (!this.pdfDoc) return Promise.reject(new Error('No PDF document loaded'));
+    if (!this.outline) {
+      this.outline = getDocumentOutline(this.pdfDoc);
+    }
+    return this.outline;
+  }
+
+  /** Go to the next page. Returns the new page number. */
+  nextPage(): number {
+    return this.goToPage(this.currentPage + 1);
+  }
+
+  /** Go to the previous page. Returns the new page number. */
+  prevPage(): number {
+    return this.goToPage(this.currentPage - 1);
+  }
+
+  /**
+   * Bytes of the loaded PDF. With highlights, they are written into the file
+   * as Highlight annotations (requires the `pdfLib` option).
+   */
+  async exportPDF(highlights: ExportHighlight[] = []): Promise<Uint8Array> {
     if (!this.pdfDoc) throw new Error('No PDF document loaded');
 
-    const data = await this.pdfDoc.getData();
+    const data: Uint8Array = await this.pdfDoc.getData();
+    if (highlights.length === 0) return data;
+    return exportAnnotatedPDF(this.pdfLib, data, highlights);
+  }
+
+  /**
+   * Download the currently loaded PDF, optionally with highlights written
+   * into it (see `exportPDF`).
+   */
+  async download(
+    filename: string = 'document.pdf',
+    highlights: ExportHighlight[] = []
+  ): Promise<void> {
+    const data = await this.exportPDF(highlights);
     const blob = new Blob([data as BlobPart], { type: 'application/pdf' });
     const url = URL.createObjectURL(blob);
 
@@ -237,6 +936,19 @@ export class PDFRenderer {
     URL.revokeObjectURL(url);
   }
 
+  /**
+   * Extract the text of every page without rendering (cached per document).
+   * Pass the result to `SearchController.setTextIndex()` to search the whole
+   * document regardless of which pages are rendered.
+   */
+  getTextIndex(): Promise<PageText[]> {
+    if (!this.pdfDoc) return Promise.reject(new Error('No PDF document loaded'));
+    if (!this.textIndex) {
+      this.textIndex = buildTextIndex(this.pdfDoc);
+    }
+    return this.textIndex;
+  }
+
   getClassNames(): Required<ClassNames> {
     return this.cls;
   }
@@ -249,9 +961,23 @@ export class PDFRenderer {
     return this.pdfDoc?.numPages ?? 0;
   }
 
+  /** The loaded pdf.js document (e.g. for `ThumbnailStrip`), null if none. */
+  getDocument(): PDFDocumentProxy | null {
+    return this.pdfDoc;
+  }
+
   cleanup(): void {
+    this.generation++;
+    this.releaseSlots();
+    this.unlistenScroll();
+    this.unobserveResize();
+    this.firstPageSize = null;
+    this.currentPage = 0;
+    this.requestedPage = 0;
     this.pdfDoc?.destroy();
     this.pdfDoc = null;
+    this.textIndex = null;
+    this.outline = null;
     this.pageData = [];
     this.container.innerHTML = '';
   }
@@ -1,15 +1,29 @@
 import { EventEmitter } from './EventEmitter';
 import { PDFRenderer } from './PDFRenderer';
-import { searchPage } from './SearchEngine';
-import type { MatchRange } from './SearchEngine';
-import { HighlightManager } from './HighlightManager';
-import { DEFAULT_CLASS_NAMES, ZOOM_STEP, MIN_SCALE, MAX_SCALE, MULTI_CONTEXT_COLOR_COUNT } from './constants';
+import { SearchController } from './SearchController';
+import { AnnotationManager } from './AnnotationManager';
+import type { AnnotationProps } from './AnnotationManager';
+import { ThumbnailStrip } from './ThumbnailStrip';
+import { attachZoomGestures } from './ZoomGestures';
+import type { ThumbnailStripOptions } from './ThumbnailStrip';
+import { DEFAULT_CLASS_NAMES, ZOOM_STEP, MIN_SCALE, MAX_SCALE } from './constants';
 import type {
   PDFSearchViewerOptions,
   SearchOptions,
+  AsyncSearchOptions,
   SearchContext,
   PDFSearchViewerEventMap,
   PageData,
+  SearchMatch,
+  ContextLegendEntry,
+  HighlightRange,
+  Annotation,
+  DownloadOptions,
+  ExportHighlight,
+  OutlineItem,
+  PDFDestination,
+  ZoomMode,
+  ZoomAnchor,
 } from '../types';
 
 export type PDFSource = File | ArrayBuffer | Uint8Array | string;
@@ -32,17 +46,22 @@ export type PDFSource = File | ArrayBuffer | Uint8Array | string;
  * await viewer.loadPDF(file);
  * viewer.search('hello');
  * viewer.nextMatch();
+ *
+ * // While typing: match in a worker, older queries are dropped
+ * input.oninput = () => viewer.searchAsync(input.value).catch(() => {});
  * ```
  */
 export class PDFSearchViewer extends EventEmitter<PDFSearchViewerEventMap> {
+  private container: HTMLElement;
   private renderer: PDFRenderer;
-  private highlightManager: HighlightManager;
+  private controller: SearchController;
+  private annotations: AnnotationManager;
+  private thumbnails: ThumbnailStrip[] = [];
   private pageData: PageData[] = [];
-  private lastQuery = '';
-  private lastSearchOptions: SearchOptions = {};
-  private lastContexts: SearchContext[] = [];
-  private lastIsMultiContext = false;
   private destroyed = false;
+  /** Incremented per render pass the viewer starts, so only the latest one applies its pages. */
+  private renderRequest = 0;
+  private detachGestures: (() => void) | null = null;
 
   constructor(
     container: HTMLElement,
@@ -53,15 +72,64 @@ export class PDFSearchViewer extends EventEmitter<PDFSearchViewerEventMap> {
 
     const cls = { ...DEFAULT_CLASS_NAMES, ...options.classNames };
 
+    this.container = container;
     this.renderer = new PDFRenderer(container, options);
     this.renderer.setPdfjsLib(pdfjsLib);
-    this.highlightManager = new HighlightManager(
-      cls.highlight,
-      cls.activeHighlight
-    );
-    if (options.autoScroll !== undefined) {
-      this.highlightManager.autoScroll = options.autoScroll;
+    this.controller = new SearchController({
+      classNames: cls,
+      autoScroll: options.autoScroll,
+      searchWorkerSrc: options.searchWorkerSrc,
+      snippetLength: options.snippetLength,
+      highlightMode: options.highlightMode,
+    });
+    this.controller.onError = (error) => this.emit('error', { error, context: 'search' });
+    this.controller.onProgress = (progress) => this.emit('searchprogress', progress);
+
+    this.annotations = new AnnotationManager({ classNames: cls });
+    this.annotations.on('create', (data) => this.emit('annotationcreate', data));
+    this.annotations.on('update', (data) => this.emit('annotationupdate', data));
+    this.annotations.on('delete', (data) => this.emit('annotationdelete', data));
+
+    if (options.gestureZoom) {
+      this.detachGestures = attachZoomGestures(container, {
+        getScale: () => this.resolveCurrentScale(),
+        preview: (scale, anchor) => {
+          if (this.pageData.length === 0) return;
+          this.renderer.setScale(scale);
+          this.renderer.previewScale(anchor);
+        },
+        commit: (scale, anchor) => {
+          if (this.pageData.length === 0) return;
+          this.setScale(scale, anchor).catch((error) => this.emit('error', { error, context: 'zoom' }));
+        },
+      });
     }
+
+    // Zoom modes: fit the pages again when the container was resized
+    this.renderer.on('resize', () => {
+      this.refit().catch((error) => this.emit('error', { error, context: 'resize' }));
+    });
+
+    this.renderer.on('pageerror', ({ error }) => this.emit('error', { error, context: 'render' }));
+
+    this.renderer.on('pagechange', (data) => {
+      this.thumbnails.forEach((t) => t.setCurrentPage(data.pageNumber));
+      this.emit('pagechange', data);
+    });
+
+    // Virtualized pages: highlight them once their text layer exists
+    this.renderer.on('pagerender', ({ pageIndex, pageData }) => {
+      // Pages of a render pass still in progress are searched by setPages()
+      if (this.pageData[pageIndex] !== pageData) return;
+      this.annotations.refreshPage(pageIndex);
+      const prevCounts = this.controller.getPageMatchCounts();
+      this.controller.refreshPage(pageIndex);
+      // Without a text index the page was only searched now: report its matches
+      const counts = this.controller.getPageMatchCounts();
+      if (counts.length !== prevCounts.length || counts.some((n, i) => n !== prevCounts[i])) {
+        this.emitSearchEvents();
+      }
+    });
   }
 
   /**
@@ -72,9 +140,23 @@ export class PDFSearchViewer extends EventEmitter<PDFSearchViewerEventMap> {
 
     try {
       await this.renderer.loadDocument(source);
-      this.pageData = await this.renderer.renderAllPages();
+      // Annotations belong to the previous document
+      this.annotations.clear();
+      this.thumbnails.forEach((t) => void t.setDocument(this.renderer.getDocument()));
+      const pdfDoc = this.renderer.getDocument();
+      this.renderRequest++;
+      const pages = await this.renderer.renderAllPages();
+      // Another document was loaded meanwhile
+      if (this.renderer.getDocument() !== pdfDoc) return;
+      this.pageData = pages;
+      this.annotations.setPages(pages);
+      // Rendered pages first; the text index of the previous document is dropped
+      this.controller.setPages(pages, null);
+      this.updateThumbnailCounts();
       const pageCount = this.renderer.getPageCount();
       this.emit('load', { pageCount });
+      if (this.hasActiveSearch()) this.emitSearchEvents();
+      void this.attachTextIndex();
     } catch (err) {
       const error = err instanceof Error ? err : new Error(String(err));
       this.emit('error', { error, context: 'loadPDF' });
@@ -89,40 +171,8 @@ export class PDFSearchViewer extends EventEmitter<PDFSearchViewerEventMap> {
   search(query: string, options: SearchOptions = {}): number {
     if (this.destroyed) throw new Error('PDFSearchViewer has been destroyed');
 
-    // Clear previous highlights
-    this.highlightManager.clearHighlights(this.pageData);
-    this.lastQuery = query;
-    this.lastSearchOptions = options;
-    this.lastIsMultiContext = false;
-    this.lastContexts = [];
-
-    const trimmed = query.trim();
-    if (!trimmed) {
-      this.emit('search', { query, total: 0 });
-      this.emit('matchchange', { current: -1, total: 0 });
-      return 0;
-    }
-
-    // Search each page and apply highlights
-    for (const pd of this.pageData) {
-      const matchRanges = searchPage(pd.spans, trimmed, options);
-      const matches = this.highlightManager.applyHighlights(pd.spans, matchRanges);
-      this.highlightManager.addMatches(matches);
-    }
-
-    const total = this.highlightManager.getTotal();
-
-    // Auto-activate first match
-    if (total > 0) {
-      this.highlightManager.setActiveMatch(0);
-    }
-
-    this.emit('search', { query, total });
-    this.emit('matchchange', {
-      current: total > 0 ? 0 : -1,
-      total,
-    });
-
+    const total = this.controller.search(query, options);
+    this.emitSearchEvents();
     return total;
   }
 
@@ -135,76 +185,46 @@ export class PDFSearchViewer extends EventEmitter<PDFSearchViewerEventMap> {
   searchMultiple(contexts: SearchContext[], sharedOptions: SearchOptions = {}): number {
     if (this.destroyed) throw new Error('PDFSearchViewer has been destroyed');
 
-    this.highlightManager.clearHighlights(this.pageData);
-    this.lastContexts = contexts;
-    this.lastIsMultiContext = true;
-    this.lastQuery = '';
-    this.lastSearchOptions = sharedOptions;
-
-    const validContexts = contexts.filter((c) => c.query.trim());
-    if (validContexts.length === 0) {
-      this.emit('searchmultiple', { contexts, total: 0, totalsPerContext: contexts.map(() => 0) });
-      this.emit('matchchange', { current: -1, total: 0 });
-      return 0;
-    }
-
-    const totalsPerContext = new Array(validContexts.length).fill(0);
-
-    for (const pd of this.pageData) {
-      const allMatchRanges: MatchRange[][] = [];
-      const classPerMatch: string[] = [];
-      const contextPerMatch: number[] = [];
-
-      for (let ci = 0; ci < validContexts.length; ci++) {
-        const ctx = validContexts[ci];
-        const opts = { ...sharedOptions, ...ctx.options };
-        const pageMatches = searchPage(pd.spans, ctx.query.trim(), opts);
-
-        for (const matchRange of pageMatches) {
-          allMatchRanges.push(matchRange);
-          classPerMatch.push(`highlight-${ci % MULTI_CONTEXT_COLOR_COUNT}`);
-          contextPerMatch.push(ci);
-        }
-      }
-
-      // Sort all matches by document position
-      const indices = allMatchRanges.map((_, i) => i);
-      indices.sort((a, b) => {
-        const aFirst = allMatchRanges[a][0];
-        const bFirst = allMatchRanges[b][0];
-        if (!aFirst || !bFirst) return 0;
-        if (aFirst.spanIdx !== bFirst.spanIdx) return aFirst.spanIdx - bFirst.spanIdx;
-        return aFirst.start - bFirst.start;
-      });
-
-      const sortedRanges = indices.map((i) => allMatchRanges[i]);
-      const sortedClasses = indices.map((i) => classPerMatch[i]);
+    const total = this.controller.searchMultiple(contexts, sharedOptions);
+    this.emitSearchEvents();
+    return total;
+  }
 
-      // Count per context
-      for (const i of indices) {
-        totalsPerContext[contextPerMatch[i]]++;
-      }
+  /**
+   * Search without blocking the page (see `SearchController.searchAsync`).
+   * Emits `searchprogress` while matching and `search` when done. Rejects
+   * with an AbortError when a newer search or `options.signal` aborts it.
+   */
+  async searchAsync(query: string, options: AsyncSearchOptions = {}): Promise<number> {
+    if (this.destroyed) throw new Error('PDFSearchViewer has been destroyed');
 
-      const matches = this.highlightManager.applyHighlights(
-        pd.spans,
-        sortedRanges,
-        sortedClasses
-      );
-      this.highlightManager.addMatches(matches);
-    }
+    const total = await this.controller.searchAsync(query, options);
+    this.emitSearchEvents();
+    return total;
+  }
 
-    const total = this.highlightManager.getTotal();
+  /** Async version of `searchMultiple()` — see `searchAsync()`. */
+  async searchMultipleAsync(
+    contexts: SearchContext[],
+    sharedOptions: AsyncSearchOptions = {}
+  ): Promise<number> {
+    if (this.destroyed) throw new Error('PDFSearchViewer has been destroyed');
 
-    if (total > 0) {
-      this.highlightManager.setActiveMatch(0);
-    }
+    const total = await this.controller.searchMultipleAsync(contexts, sharedOptions);
+    this.emitSearchEvents();
+    return total;
+  }
 
-    this.emit('searchmultiple', { contexts, total, totalsPerContext });
-    this.emit('matchchange', {
-      current: total > 0 ? 0 : -1,
-      total,
-    });
+  /**
+   * Highlight ranges without searching — page text offsets or rects in PDF
+   * points (e.g. citations). Replaces the current search; nextMatch/prevMatch
+   * navigate the ranges. Emits `highlight`. Returns the number highlighted.
+   */
+  highlightRanges(ranges: HighlightRange[]): number {
+    if (this.destroyed) throw new Error('PDFSearchViewer has been destroyed');
 
+    const total = this.controller.highlightRanges(ranges);
+    this.emitSearchEvents();
     return total;
   }
 
@@ -212,11 +232,8 @@ export class PDFSearchViewer extends EventEmitter<PDFSearchViewerEventMap> {
    * Navigate to next match (wraps around).
    */
   nextMatch(): number {
-    const idx = this.highlightManager.next();
-    this.emit('matchchange', {
-      current: idx,
-      total: this.highlightManager.getTotal(),
-    });
+    const idx = this.controller.next();
+    this.emitMatchChange();
     return idx;
   }
 
@@ -224,37 +241,125 @@ export class PDFSearchViewer extends EventEmitter<PDFSearchViewerEventMap> {
    * Navigate to previous match (wraps around).
    */
   prevMatch(): number {
-    const idx = this.highlightManager.prev();
-    this.emit('matchchange', {
-      current: idx,
-      total: this.highlightManager.getTotal(),
-    });
+    const idx = this.controller.prev();
+    this.emitMatchChange();
     return idx;
   }
 
+  /**
+   * Navigate to the next match of one context (wraps around).
+   * Returns the new overall match index, -1 if the context has no visible matches.
+   */
+  nextInContext(contextIndex: number): number {
+    const idx = this.controller.nextInContext(contextIndex);
+    this.emitMatchChange();
+    return idx;
+  }
+
+  /**
+   * Navigate to the previous match of one context (wraps around).
+   */
+  prevInContext(contextIndex: number): number {
+    const idx = this.controller.prevInContext(contextIndex);
+    this.emitMatchChange();
+    return idx;
+  }
+
+  /**
+   * Show or hide the highlights of one context without searching again.
+   * Hidden matches are skipped by navigation.
+   */
+  setContextVisible(contextIndex: number, visible: boolean): void {
+    this.controller.setContextVisible(contextIndex, visible);
+  }
+
+  /**
+   * Whether a context's highlights are shown.
+   */
+  isContextVisible(contextIndex: number): boolean {
+    return this.controller.isContextVisible(contextIndex);
+  }
+
   /**
    * Clear all search highlights.
    */
   clearSearch(): void {
-    this.highlightManager.clearHighlights(this.pageData);
-    this.lastQuery = '';
-    this.lastContexts = [];
-    this.lastIsMultiContext = false;
-    this.emit('search', { query: '', total: 0 });
+    this.controller.clear();
+    this.updateThumbnailCounts();
+    this.emit('search', {
+      query: '',
+      total: 0,
+      pageCounts: this.controller.getPageMatchCounts(),
+      matches: [],
+    });
     this.emit('matchchange', { current: -1, total: 0 });
   }
 
-  /** Get the current scale setting. */
-  getScale(): number | 'auto' {
+  /**
+   * Save the text selected in the viewer as an annotation with a color and
+   * a note. Emits `annotationcreate`. Returns null if no text is selected.
+   */
+  createAnnotation(props: AnnotationProps = {}): Annotation | null {
+    return this.annotations.createFromSelection(props);
+  }
+
+  /** Change an annotation's color or note. Emits `annotationupdate`. */
+  updateAnnotation(id: string, props: AnnotationProps): Annotation | null {
+    return this.annotations.update(id, props);
+  }
+
+  /** Delete an annotation. Emits `annotationdelete`. */
+  removeAnnotation(id: string): boolean {
+    return this.annotations.remove(id);
+  }
+
+  /** Get all annotations in creation order. */
+  getAnnotations(): Annotation[] {
+    return this.annotations.getAll();
+  }
+
+  /** Get all annotations as a JSON string (page + text offset anchors). */
+  exportAnnotations(): string {
+    return this.annotations.serialize();
+  }
+
+  /**
+   * Replace the annotations with saved ones, e.g. after `load`.
+   * Does not emit `annotationcreate`.
+   */
+  importAnnotations(data: string | Annotation[]): void {
+    this.annotations.load(data);
+  }
+
+  /** Get the current scale setting (a number or a zoom mode). */
+  getScale(): number | ZoomMode {
     return this.renderer.getScale();
   }
 
-  /** Set scale and re-render. Preserves current search state. */
-  async setScale(scale: number | 'auto'): Promise<void> {
+  /** The active zoom mode, null for a numeric scale. */
+  getZoomMode(): ZoomMode | null {
+    return this.renderer.getZoomMode();
+  }
+
+  /** The numeric scale of the last render (the fitted scale of a zoom mode). */
+  getEffectiveScale(): number {
+    return this.renderer.getEffectiveScale();
+  }
+
+  /**
+   * Set a scale or zoom mode (`'page-fit'`, `'page-width'`, ...) and
+   * re-render. Preserves current search state.
+   *
+   * The pages are resized with CSS at once and drawn sharp in the
+   * background. The point at `anchor` (client coordinates) stays in place —
+   * by default the active match if it is in view, else the top of the view.
+   */
+  async setScale(scale: number | ZoomMode, anchor?: ZoomAnchor): Promise<void> {
     if (this.destroyed) throw new Error('PDFSearchViewer has been destroyed');
     this.renderer.setScale(scale);
-    await this.rerender();
-    this.emit('zoom', { scale: this.renderer.getEffectiveScale() });
+    this.renderer.previewScale(anchor ?? this.activeMatchAnchor());
+    // A newer zoom replaced this one while it rendered
+    if (await this.rerender()) this.emitZoom();
   }
 
   /** Zoom in by one step. */
@@ -271,26 +376,203 @@ export class PDFSearchViewer extends EventEmitter<PDFSearchViewerEventMap> {
     await this.setScale(newScale);
   }
 
-  /** Download the currently loaded PDF. */
-  async download(filename?: string): Promise<void> {
+  /**
+   * Scroll to a page (1-based, clamped to the document). Emits `pagechange`.
+   * Returns the page number, 0 if nothing is loaded.
+   */
+  goToPage(pageNumber: number): number {
+    return this.renderer.goToPage(pageNumber);
+  }
+
+  /** Go to the next page. */
+  nextPage(): number {
+    return this.renderer.nextPage();
+  }
+
+  /** Go to the previous page. */
+  prevPage(): number {
+    return this.renderer.prevPage();
+  }
+
+  /** The most visible page (1-based), 0 if nothing is loaded. */
+  getCurrentPage(): number {
+    return this.renderer.getCurrentPage();
+  }
+
+  /**
+   * Scroll to a destination, e.g. an outline entry's `dest`. Returns the
+   * page number, 0 if it cannot be resolved.
+   */
+  goToDestination(dest: PDFDestination): Promise<number> {
+    return this.renderer.goToDestination(dest);
+  }
+
+  /** The document outline (bookmarks) with destination page numbers. */
+  getOutline(): Promise<OutlineItem[]> {
+    return this.renderer.getOutline();
+  }
+
+  /**
+   * Show page thumbnails in `container`, with match counts of the current
+   * search and the current page marked. Clicking a thumbnail scrolls to its
+   * page. The strip follows loaded documents, searches and scrolling until
+   * the viewer is destroyed.
+   */
+  createThumbnails(container: HTMLElement, options: ThumbnailStripOptions = {}): ThumbnailStrip {
     if (this.destroyed) throw new Error('PDFSearchViewer has been destroyed');
-    await this.renderer.download(filename);
+
+    const strip = new ThumbnailStrip(container, {
+      ...options,
+      classNames: { ...this.renderer.getClassNames(), ...options.classNames },
+    });
+    strip.on('select', ({ pageNumber }) => this.goToPage(pageNumber));
+    strip.setMatchCounts(this.controller.getPageMatchCounts());
+    strip.setCurrentPage(this.renderer.getCurrentPage());
+    void strip.setDocument(this.renderer.getDocument());
+    this.thumbnails.push(strip);
+    return strip;
+  }
+
+  /**
+   * Download the currently loaded PDF. With `matches`/`annotations`, the
+   * search highlights and user annotations are written into the file as PDF
+   * Highlight annotations (requires the `pdfLib` option).
+   */
+  async download(filename?: string, options: DownloadOptions = {}): Promise<void> {
+    if (this.destroyed) throw new Error('PDFSearchViewer has been destroyed');
+    await this.renderer.download(filename, await this.exportHighlights(options));
+  }
+
+  /** Bytes of the loaded PDF, with highlights written into it like `download()`. */
+  async exportPDF(options: DownloadOptions = {}): Promise<Uint8Array> {
+    if (this.destroyed) throw new Error('PDFSearchViewer has been destroyed');
+    return this.renderer.exportPDF(await this.exportHighlights(options));
+  }
+
+  private async exportHighlights(options: DownloadOptions): Promise<ExportHighlight[]> {
+    const highlights: ExportHighlight[] = [];
+    if (options.matches) highlights.push(...this.controller.getExportHighlights());
+    if (options.annotations) {
+      const textIndex = await this.renderer.getTextIndex();
+      highlights.push(
+        ...this.annotations.getExportHighlights((i) => textIndex[i]?.spans)
+      );
+    }
+    return highlights;
+  }
+
+  /**
+   * Whole-document search, independent of which pages are rendered: attach
+   * the text index once it is built and report the new counts.
+   */
+  private async attachTextIndex(): Promise<void> {
+    const pdfDoc = this.renderer.getDocument();
+    try {
+      const textIndex = await this.renderer.getTextIndex();
+      if (this.destroyed || this.renderer.getDocument() !== pdfDoc) return;
+      this.controller.setTextIndex(textIndex);
+      if (this.hasActiveSearch()) this.emitSearchEvents();
+    } catch (err) {
+      // Another document was loaded meanwhile
+      if (this.destroyed || this.renderer.getDocument() !== pdfDoc) return;
+      const error = err instanceof Error ? err : new Error(String(err));
+      this.emit('error', { error, context: 'textIndex' });
+    }
   }
 
+  /** Zoom steps start from the scale on screen, also in a zoom mode. */
   private resolveCurrentScale(): number {
     const s = this.renderer.getScale();
-    return s === 'auto' ? this.renderer.getEffectiveScale() : s;
+    return typeof s === 'number' ? s : this.renderer.getEffectiveScale();
+  }
+
+  /** Center of the active match, if it is in view. */
+  private activeMatchAnchor(): ZoomAnchor | undefined {
+    const mark = this.controller.getMatches()[this.controller.current]?.marks[0];
+    if (!mark?.isConnected) return undefined;
+
+    const rect = mark.getBoundingClientRect();
+    const box = this.container.getBoundingClientRect();
+    const inView =
+      rect.bottom > Math.max(box.top, 0) &&
+      rect.top < Math.min(box.bottom, window.innerHeight);
+    return inView ? { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 } : undefined;
+  }
+
+  private async refit(): Promise<void> {
+    if (this.destroyed || this.pageData.length === 0) return;
+    if (await this.rerender()) this.emitZoom();
+  }
+
+  private emitZoom(): void {
+    this.emit('zoom', {
+      scale: this.renderer.getEffectiveScale(),
+      mode: this.renderer.getZoomMode(),
+    });
+  }
+
+  /** Render the pages again; false if a newer render pass superseded this one. */
+  private async rerender(): Promise<boolean> {
+    const request = ++this.renderRequest;
+    const pages = await this.renderer.renderAllPages();
+    if (request !== this.renderRequest) return false;
+    this.pageData = pages;
+    // Re-applies the active search and redraws annotations on the new pages
+    this.annotations.setPages(this.pageData);
+    this.controller.setPages(this.pageData);
+    if (this.hasActiveSearch()) this.emitSearchEvents();
+    return true;
   }
 
-  private async rerender(): Promise<void> {
-    this.highlightManager.clearHighlights(this.pageData);
-    this.pageData = await this.renderer.renderAllPages();
+  private hasActiveSearch(): boolean {
+    return (
+      this.controller.contexts.length > 0 ||
+      this.controller.ranges.length > 0 ||
+      this.controller.query.trim().length > 0
+    );
+  }
 
-    if (this.lastIsMultiContext && this.lastContexts.length > 0) {
-      this.searchMultiple(this.lastContexts, this.lastSearchOptions);
-    } else if (this.lastQuery.trim()) {
-      this.search(this.lastQuery, this.lastSearchOptions);
+  private emitSearchEvents(): void {
+    const total = this.controller.total;
+    const contexts = this.controller.contexts;
+    this.updateThumbnailCounts();
+
+    if (this.controller.ranges.length > 0) {
+      this.emit('highlight', {
+        total,
+        pageCounts: this.controller.getPageMatchCounts(),
+        matches: this.controller.getMatches(),
+      });
+    } else if (contexts.length > 0) {
+      this.emit('searchmultiple', {
+        contexts,
+        total,
+        totalsPerContext: this.controller.totalsPerContext,
+        pageCounts: this.controller.getPageMatchCounts(),
+        matches: this.controller.getMatches(),
+      });
+    } else {
+      this.emit('search', {
+        query: this.controller.query,
+        total,
+        pageCounts: this.controller.getPageMatchCounts(),
+        matches: this.controller.getMatches(),
+      });
     }
+    this.emitMatchChange();
+  }
+
+  private updateThumbnailCounts(): void {
+    if (this.thumbnails.length === 0) return;
+    const pageCounts = this.controller.getPageMatchCounts();
+    this.thumbnails.forEach((t) => t.setMatchCounts(pageCounts));
+  }
+
+  private emitMatchChange(): void {
+    this.emit('matchchange', {
+      current: this.controller.current,
+      total: this.controller.total,
+    });
   }
 
   /**
@@ -304,14 +586,44 @@ export class PDFSearchViewer extends EventEmitter<PDFSearchViewerEventMap> {
    * Get current active match index (0-based). -1 if none.
    */
   getCurrentMatchIndex(): number {
-    return this.highlightManager.getCurrentIndex();
+    return this.controller.current;
+  }
+
+  /**
+   * Get the index (0-based) of the active match among one context's matches.
+   * -1 if the active match belongs to another context.
+   */
+  getCurrentMatchIndexInContext(contextIndex: number): number {
+    return this.controller.currentInContext(contextIndex);
   }
 
   /**
    * Get total number of matches.
    */
   getMatchCount(): number {
-    return this.highlightManager.getTotal();
+    return this.controller.total;
+  }
+
+  /**
+   * Get all matches with page, offsets, text and snippet (document order).
+   */
+  getMatches(): SearchMatch[] {
+    return this.controller.getMatches();
+  }
+
+  /**
+   * Get color, label, match total, active match and visibility of each
+   * multi-context search context.
+   */
+  getLegend(): ContextLegendEntry[] {
+    return this.controller.getLegend();
+  }
+
+  /**
+   * Get the number of matches on each page (index 0 = page 1).
+   */
+  getPageMatchCounts(): number[] {
+    return this.controller.getPageMatchCounts();
   }
 
   /**
@@ -320,8 +632,15 @@ export class PDFSearchViewer extends EventEmitter<PDFSearchViewerEventMap> {
   destroy(): void {
     if (this.destroyed) return;
     this.destroyed = true;
-    this.highlightManager.clearHighlights(this.pageData);
+    this.detachGestures?.();
+    this.detachGestures = null;
+    this.controller.clear();
+    this.controller.destroy();
+    this.annotations.destroy();
+    this.thumbnails.forEach((t) => t.destroy());
+    this.thumbnails = [];
     this.renderer.cleanup();
+    this.renderer.removeAllListeners();
     this.removeAllListeners();
     this.pageData = [];
   }
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { locatePassage } from './PassageLocator';
+import type { PageMatchSegment } from './SearchEngine';
+import type { TextSpan } from '../types';
+
+/** A page of one-line spans. */
+const page = (...lines: string[]): TextSpan[] => lines.map((text) => ({ text, hasEOL: true }));
+
+/** The located text per page, lines joined with '|'. */
+function locatedText(pages: TextSpan[][], segments: PageMatchSegment[]): string[] {
+  return segments.map((seg) =>
+    seg.ranges.map((r) => pages[seg.pageIndex][r.spanIdx].text.slice(r.start, r.end)).join('|')
+  );
+}
+
+const pages = [
+  page(
+    'The parties agree that the supplier shall deliver',
+    'the goods within thirty days of the order date.',
+    'Payment is due on delivery.'
+  ),
+  page(
+    'Either party may terminate this agreement by giving',
+    'written notice of not less than ninety days to the other',
+    'party, and termination shall not affect accrued rights.'
+  ),
+];
+
+describe('locatePassage', () => {
+  it('finds a verbatim passage with score 1', () => {
+    const found = locatePassage(pages, 'the supplier shall deliver the goods within thirty days');
+    expect(found?.score).toBe(1);
+    expect(locatedText(pages, found!.segments)).toEqual(['the supplier shall deliver|the goods within thirty days']);
+  });
+
+  it('tolerates OCR noise, dropped and extra words', () => {
+    const found = locatePassage(
+      pages,
+      'Either party may terminate the agreement by giving writen notice of not less than 90 days'
+    );
+    expect(found).not.toBeNull();
+    expect(found!.score).toBeGreaterThan(0.6);
+    expect(found!.score).toBeLessThan(1);
+    expect(found!.segments.map((s) => s.pageIndex)).toEqual([1]);
+    expect(locatedText(pages, found!.segments)[0]).toMatch(/^Either party may terminate.*notice of not less than/);
+  });
+
+  it('locates a passage that crosses a page break', () => {
+    const found = locatePassage(pages, 'Payment is due on delivery. Either party may terminate this agreement');
+    expect(found?.segments.map((s) => s.pageIndex)).toEqual([0, 1]);
+    expect(locatedText(pages, found!.segments)).toEqual([
+      'Payment is due on delivery.',
+      'Either party may terminate this agreement',
+    ]);
+  });
+
+  it('skips pages without text', () => {
+    const found = locatePassage([null, pages[1]], 'written notice of not less than ninety days');
+    expect(found?.segments.map((s) => s.pageIndex)).toEqual([1]);
+  });
+
+  it('returns null below the threshold', () => {
+    const query = 'the buyer shall collect the goods within thirty days';
+    expect(locatePassage(pages, 'completely unrelated words about weather forecasts')).toBeNull();
+    expect(locatePassage(pages, query, { passageThreshold: 0.95 })).toBeNull();
+    expect(locatePassage(pages, query)).not.toBeNull();
+  });
+
+  it('compares words case-insensitively unless caseSensitive', () => {
+    const query = 'PAYMENT IS DUE ON DELIVERY';
+    expect(locatePassage(pages, query)?.score).toBe(1);
+    expect(locatePassage(pages, query, { caseSensitive: true })).toBeNull();
+  });
+});
@@ -0,0 +1,185 @@
+import { buildDocumentText } from './SearchEngine';
+import type { PageMatchSegment } from './SearchEngine';
+import type { SearchOptions, TextSpan } from '../types';
+
+/** The region of the document that best matches a passage. */
+export interface PassageMatch {
+  /** Per-page segments in page order (a passage may cross pages). */
+  segments: PageMatchSegment[];
+  /** Alignment score: 1 for the passage verbatim, lower per missing, extra or changed word. */
+  score: number;
+}
+
+interface Word {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/** Letters, digits and underscore in any script (same as word matching). */
+const WORD = /[\p{L}\p{N}_]+/gu;
+
+/** Words per anchor shingle. */
+const SHINGLE_SIZE = 3;
+
+/** Candidate regions aligned in full. */
+const MAX_CANDIDATES = 3;
+
+// Word alignment scoring: a matching word scores its similarity (≤ 1)
+const MISMATCH_PENALTY = 0.6;
+const GAP_PENALTY = 0.4;
+
+/** Min similarity of two different words to count as an OCR/typo variant. */
+const MIN_WORD_SIMILARITY = 0.7;
+
+function toWords(text: string): Word[] {
+  return Array.from(text.matchAll(WORD), (m) => ({
+    text: m[0],
+    start: m.index!,
+    end: m.index! + m[0].length,
+  }));
+}
+
+function levenshtein(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/** 1 for equal words, 0.7–1 for close variants of words of 4+ chars, else 0. */
+function wordSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  if (Math.min(a.length, b.length) < 4 || Math.abs(a.length - b.length) > longest / 3) return 0;
+  const similarity = 1 - levenshtein(a, b) / longest;
+  return similarity >= MIN_WORD_SIMILARITY ? similarity : 0;
+}
+
+/**
+ * Where the passage likely starts, as document word indexes: anchors are
+ * word shingles shared with the passage, each voting for the document word
+ * the passage would start at. Returns the best-supported starts.
+ */
+function candidateStarts(docWords: Word[], queryWords: Word[], slack: number): number[] {
+  const find = (size: number): number[] => {
+    const positions = new Map<string, number[]>();
+    for (let j = 0; j + size <= queryWords.length; j++) {
+      const key = queryWords.slice(j, j + size).map((w) => w.text).join(' ');
+      if (!positions.has(key)) positions.set(key, []);
+      positions.get(key)!.push(j);
+    }
+    const votes: number[] = [];
+    for (let i = 0; i + size <= docWords.length; i++) {
+      const key = docWords.slice(i, i + size).map((w) => w.text).join(' ');
+      positions.get(key)?.forEach((j) => votes.push(i - j));
+    }
+    return votes.sort((a, b) => a - b);
+  };
+
+  let votes = find(Math.min(SHINGLE_SIZE, queryWords.length));
+  // Dense OCR noise breaks most shingles: fall back to single words
+  if (votes.length < 2) votes = find(1);
+
+  // Densest windows of votes; each pick removes its votes
+  const starts: number[] = [];
+  while (starts.length < MAX_CANDIDATES && votes.length > 0) {
+    let bestLo = 0;
+    let bestHi = 0;
+    for (let lo = 0, hi = 0; lo < votes.length; lo++) {
+      while (hi < votes.length && votes[hi] - votes[lo] <= 2 * slack) hi++;
+      if (hi - lo > bestHi - bestLo) {
+        bestLo = lo;
+        bestHi = hi;
+      }
+    }
+    starts.push(votes[(bestLo + bestHi - 1) >> 1]);
+    votes = [...votes.slice(0, bestLo), ...votes.slice(bestHi)];
+  }
+  return starts;
+}
+
+/**
+ * Local alignment (Smith–Waterman over words) of the passage against
+ * doc words [from, to). Returns the best score and the aligned word span.
+ */
+function alignWords(
+  docWords: Word[],
+  from: number,
+  to: number,
+  queryWords: Word[]
+): { score: number; first: number; last: number } {
+  const width = to - from;
+  let prev = new Float64Array(width + 1);
+  let prevStart = new Int32Array(width + 1);
+  let best = { score: 0, first: -1, last: -1 };
+
+  for (let j = 1; j <= queryWords.length; j++) {
+    const row = new Float64Array(width + 1);
+    const rowStart = new Int32Array(width + 1);
+    const q = queryWords[j - 1].text;
+    for (let i = 1; i <= width; i++) {
+      const similarity = wordSimilarity(q, docWords[from + i - 1].text);
+      const diagonal = prev[i - 1] + (similarity > 0 ? similarity : -MISMATCH_PENALTY);
+      const skipDoc = row[i - 1] - GAP_PENALTY;
+      const skipQuery = prev[i] - GAP_PENALTY;
+      const score = Math.max(0, diagonal, skipDoc, skipQuery);
+      row[i] = score;
+      if (score === 0) {
+        rowStart[i] = -1;
+      } else if (score === diagonal) {
+        rowStart[i] = prev[i - 1] > 0 ? prevStart[i - 1] : from + i - 1;
+      } else if (score === skipDoc) {
+        rowStart[i] = rowStart[i - 1];
+      } else {
+        rowStart[i] = prevStart[i];
+      }
+      // Regions end on a matched word
+      if (score > best.score && similarity > 0 && score === diagonal) {
+        best = { score, first: rowStart[i], last: from + i - 1 };
+      }
+    }
+    prev = row;
+    prevStart = rowStart;
+  }
+  return best;
+}
+
+/**
+ * Find the single region of the document that best matches a long passage
+ * (e.g. a quote to cite), tolerating dropped or extra words, changes at the
+ * passage edges and OCR noise. Words are compared case-insensitively (unless
+ * `caseSensitive`) after the `normalize`/`ignoreDiacritics` folding.
+ *
+ * Returns null when no region scores at least `passageThreshold` (default 0.5).
+ */
+export function locatePassage(
+  pages: Array<TextSpan[] | null>,
+  passage: string,
+  options: SearchOptions = {}
+): PassageMatch | null {
+  const doc = buildDocumentText(pages.map((spans) => spans ?? []), options);
+  const queryWords = toWords(doc.fold(passage));
+  if (queryWords.length === 0) return null;
+  const docWords = toWords(doc.text);
+
+  const slack = Math.max(10, Math.ceil(queryWords.length * 0.25));
+  let best = { score: 0, first: -1, last: -1 };
+  for (const start of candidateStarts(docWords, queryWords, slack)) {
+    const from = Math.max(0, start - slack);
+    const to = Math.min(docWords.length, start + queryWords.length + slack);
+    const aligned = alignWords(docWords, from, to, queryWords);
+    if (aligned.score > best.score) best = aligned;
+  }
+
+  const score = Math.min(1, best.score / queryWords.length);
+  if (best.first < 0 || score < (options.passageThreshold ?? 0.5)) return null;
+
+  const segments = doc.toSegments(docWords[best.first].start, docWords[best.last].end);
+  return segments.length > 0 ? { segments, score } : null;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { SearchController } from './SearchController';
+
+// A text index without rendered pages: matches are counted but not drawn
+const textIndex = [{ spans: [{ text: 'alpha beta gamma alpha', hasEOL: true }] }];
+
+function controller(): SearchController {
+  const search = new SearchController();
+  search.setPages([], textIndex);
+  return search;
+}
+
+describe('context visibility', () => {
+  it('skips hidden contexts in navigation', () => {
+    const search = controller();
+    search.searchMultiple([{ query: 'alpha' }, { query: 'beta' }]);
+    search.setContextVisible(0, false);
+    expect(search.isContextVisible(0)).toBe(false);
+    expect(search.getMatches()[search.next()].contextIndex).toBe(1);
+  });
+
+  it('shows every context again on a new multi-context search', () => {
+    const search = controller();
+    search.searchMultiple([{ query: 'alpha' }, { query: 'beta' }]);
+    search.setContextVisible(0, false);
+    search.searchMultiple([{ query: 'gamma' }, { query: 'alpha' }]);
+    expect(search.isContextVisible(0)).toBe(true);
+  });
+
+  it('keeps visibility when the same search is re-applied on new pages', () => {
+    const search = controller();
+    search.searchMultiple([{ query: 'alpha' }, { query: 'beta' }]);
+    search.setContextVisible(1, false);
+    search.setPages([], textIndex);
+    expect(search.isContextVisible(1)).toBe(false);
+  });
+
+  it('shows every context again on a new async multi-context search', async () => {
+    const search = controller();
+    search.searchMultiple([{ query: 'alpha' }, { query: 'beta' }]);
+    search.setContextVisible(0, false);
+    await search.searchMultipleAsync([{ query: 'gamma' }]);
+    expect(search.isContextVisible(0)).toBe(true);
+  });
+});
@@ -1,13 +1,160 @@
-import { searchPage } from './SearchEngine';
-import type { MatchRange } from './SearchEngine';
+import { validateQuery } from './SearchEngine';
+import { parseBooleanQuery } from './BooleanQuery';
+import type { PageMatchSegment } from './SearchEngine';
+import {
+  runSearchTasks,
+  runSearchTasksAsync,
+  createAbortError,
+  isAbortError,
+  yieldToEventLoop,
+} from './SearchTask';
+import type { SearchTaskResult } from './SearchTask';
+import { SearchWorkerClient } from './SearchWorkerClient';
 import { HighlightManager } from './HighlightManager';
-import { DEFAULT_CLASS_NAMES, MULTI_CONTEXT_COLOR_COUNT } from './constants';
-import type { SearchOptions, ClassNames, PageData, SearchContext } from '../types';
+import { describeMatch, layoutPageText, rangesForOffsets } from './MatchDetails';
+import { getMatchGeometry, findRangesInRects } from './MatchGeometry';
+import type { PageTextLayout } from './MatchDetails';
+import {
+  DEFAULT_CLASS_NAMES,
+  DEFAULT_SNIPPET_LENGTH,
+  MULTI_CONTEXT_COLORS,
+  MULTI_CONTEXT_COLOR_COUNT,
+} from './constants';
+import type {
+  SearchOptions,
+  AsyncSearchOptions,
+  SearchProgress,
+  ClassNames,
+  PageData,
+  PageText,
+  TextSpan,
+  SearchContext,
+  SearchMatch,
+  ContextLegendEntry,
+  HighlightRange,
+  ExportHighlight,
+  HighlightMode,
+} from '../types';
 
 export interface SearchControllerOptions {
-  classNames?: Pick<ClassNames, 'highlight' | 'activeHighlight'>;
+  classNames?: Pick<ClassNames, 'highlight' | 'activeHighlight' | 'highlightLayer'>;
+  /** `<mark>`s in the text layer or rectangles over it. Defaults to 'marks'. */
+  highlightMode?: HighlightMode;
   /** Auto-scroll to active match on search/next/prev. Defaults to true. */
   autoScroll?: boolean;
+  /**
+   * URL of the search worker script, used by `searchAsync`.
+   * Without it, async searches run on the main thread in time slices.
+   */
+  searchWorkerSrc?: string | URL;
+  /** Chars of context on each side of a match in `SearchMatch.snippet`. Defaults to 40. */
+  snippetLength?: number;
+}
+
+/** The part of a match on one page, with the marks drawn for it. */
+interface MatchSegment extends PageMatchSegment {
+  marks: HTMLElement[];
+}
+
+/** A match plus what is needed to (re)draw it when its pages render. */
+interface MatchEntry {
+  match: SearchMatch;
+  /** One segment per page, in page order (several for `crossPage` matches). */
+  segments: MatchSegment[];
+  /** CSS class for multi-context search or ranges; default highlight class if absent. */
+  className?: string;
+  /** Color set on the marks as `--psh-ctx-color` (multi-context search, ranges). */
+  color?: string;
+  contextIndex: number;
+}
+
+/** A query to run, with its effective options. */
+interface ActiveQuery {
+  query: string;
+  options: SearchOptions;
+  contextIndex: number;
+  className?: string;
+  color?: string;
+}
+
+/** Class for contexts colored through `--psh-ctx-color` (matches the `highlight-*` styles). */
+const CUSTOM_COLOR_CLASS = 'highlight-ctx';
+
+/** Distinct colors for contexts past the predefined palette (golden-angle hues). */
+function generateContextColor(index: number): string {
+  const hue = Math.round((index * 137.508) % 360);
+  return `hsla(${hue}, 85%, 55%, 0.42)`;
+}
+
+/**
+ * Class and color of a context's marks. The first contexts use the predefined
+ * `highlight-N` classes, colored by the stylesheet (no inline color, so apps
+ * can restyle them); a custom color or later contexts get `highlight-ctx`
+ * plus the color as a custom property. A custom class without a color is left
+ * to the app's CSS.
+ */
+function contextStyle(ctx: SearchContext, index: number): { className: string; color: string | null } {
+  if (ctx.className && !ctx.color) return { className: ctx.className, color: null };
+  if (!ctx.color && index < MULTI_CONTEXT_COLOR_COUNT) {
+    return { className: `highlight-${index}`, color: null };
+  }
+  const color = ctx.color ?? generateContextColor(index);
+  return {
+    className: ctx.className ? `${CUSTOM_COLOR_CLASS} ${ctx.className}` : CUSTOM_COLOR_CLASS,
+    color,
+  };
+}
+
+/** Default color of a context styled by a predefined `highlight-N` class (for the legend and export). */
+function paletteColor(ctx: SearchContext, index: number): string | null {
+  if (ctx.color || ctx.className || index >= MULTI_CONTEXT_COLOR_COUNT) return null;
+  return MULTI_CONTEXT_COLORS[index];
+}
+
+/** Class and color of a highlighted range's marks; no class means the default one. */
+function rangeStyle(range: HighlightRange): { className?: string; color?: string } {
+  if (!range.color) return { className: range.className };
+  return {
+    className: range.className ? `${CUSTOM_COLOR_CLASS} ${range.className}` : CUSTOM_COLOR_CLASS,
+    color: range.color,
+  };
+}
+
+/** Main-thread time slice (ms) for drawing async search highlights. */
+const DRAW_SLICE_MS = 8;
+
+/** Build the queries of a single (string) or multi-context (array) search. */
+function buildQueries(search: string | SearchContext[], options: SearchOptions): ActiveQuery[] {
+  if (typeof search === 'string') {
+    const query = search.trim();
+    return query ? [{ query, options, contextIndex: 0 }] : [];
+  }
+  const queries: ActiveQuery[] = [];
+  search.forEach((ctx, ci) => {
+    const query = ctx.query.trim();
+    if (!query) return;
+    const { className, color } = contextStyle(ctx, ci);
+    queries.push({
+      query,
+      options: { ...options, ...ctx.options },
+      contextIndex: ci,
+      className,
+      color: color ?? undefined,
+    });
+  });
+  return queries;
+}
+
+/** Document order: first page, then span index, then char offset. */
+function compareEntries(a: MatchEntry, b: MatchEntry): number {
+  const aSeg = a.segments[0];
+  const bSeg = b.segments[0];
+  if (aSeg.pageIndex !== bSeg.pageIndex) return aSeg.pageIndex - bSeg.pageIndex;
+  const aFirst = aSeg.ranges[0];
+  const bFirst = bSeg.ranges[0];
+  if (!aFirst || !bFirst) return 0;
+  if (aFirst.spanIdx !== bFirst.spanIdx) return aFirst.spanIdx - bFirst.spanIdx;
+  return aFirst.start - bFirst.start;
 }
 
 /**
@@ -31,6 +178,12 @@ export interface SearchControllerOptions {
  * const search = new SearchController();
  * search.setPages(pages);
  *
+ * // Search the whole document, rendered or not
+ * search.setTextIndex(await renderer.getTextIndex());
+ *
+ * // Virtualized rendering: highlight pages as they get rendered
+ * renderer.on('pagerender', ({ pageIndex }) => search.refreshPage(pageIndex));
+ *
  * // Wire up your own UI
  * input.oninput = () => search.search(input.value);
  * nextBtn.onclick = () => search.next();
@@ -40,25 +193,59 @@ export interface SearchControllerOptions {
  * search.onChange = ({ current, total }) => {
  *   label.textContent = total > 0 ? `${current + 1}/${total}` : '';
  * };
+ *
+ * // Or search without blocking input (stale queries are dropped)
+ * input.oninput = () => search.searchAsync(input.value).catch(() => {});
  * ```
  */
 export class SearchController {
   private highlightManager: HighlightManager;
   private pages: PageData[] = [];
+  private textIndex: PageText[] | null = null;
+  /** All matches in document order (page, then position). */
+  private entries: MatchEntry[] = [];
+  /** Match waiting for its page to render before it can be scrolled to. */
+  private pendingScroll: SearchMatch | null = null;
   private lastQuery = '';
   private lastSearchOptions: SearchOptions = {};
   private lastContexts: SearchContext[] = [];
   private lastIsMultiContext = false;
+  /** Ranges of the last `highlightRanges()` call; null after a search. */
+  private lastRanges: HighlightRange[] | null = null;
+  /** Multi-context contexts whose highlights are hidden (by index). */
+  private hiddenContexts = new Set<number>();
+
+  /** Error from the current search run (reported once via onError). */
+  private searchError: Error | null = null;
+
+  /** Bumped whenever the searchable text changes (pages, index, page render). */
+  private textVersion = 0;
+  /** Aborts the in-flight async search, if any. */
+  private asyncAbort: AbortController | null = null;
+  private workerSrc: string | URL | null;
+  private snippetLength: number;
+  private worker: SearchWorkerClient | null = null;
 
   /** Callback fired when match state changes (search, next, prev, clear). */
   onChange: ((state: { current: number; total: number; query: string }) => void) | null = null;
 
+  /** Callback fired when a query cannot be run (e.g. an invalid `regex` pattern). */
+  onError: ((error: Error) => void) | null = null;
+
+  /** Callback fired while an async search matches pages. */
+  onProgress: ((progress: SearchProgress) => void) | null = null;
+
   constructor(options: SearchControllerOptions = {}) {
     const cls = { ...DEFAULT_CLASS_NAMES, ...options.classNames };
-    this.highlightManager = new HighlightManager(cls.highlight, cls.activeHighlight);
+    this.highlightManager = new HighlightManager(cls.highlight, cls.activeHighlight, {
+      mode: options.highlightMode,
+      layerClass: cls.highlightLayer,
+    });
     if (options.autoScroll !== undefined) {
       this.highlightManager.autoScroll = options.autoScroll;
     }
+    this.workerSrc = options.searchWorkerSrc ?? null;
+    this.snippetLength = options.snippetLength ?? DEFAULT_SNIPPET_LENGTH;
   }
 
   /** Get or set auto-scroll behavior. */
@@ -72,22 +259,65 @@ export class SearchController {
   /**
    * Set the pages to search on.
    * Call this after rendering PDF pages.
+   *
+   * @param textIndex - Text index of the document (see setTextIndex). Pass it
+   *   when switching documents; omit it to keep the current one (e.g. zoom).
+   */
+  setPages(pages: PageData[], textIndex?: PageText[] | null): void {
+    this.reapply(() => {
+      this.pages = pages;
+      if (textIndex !== undefined) this.textIndex = textIndex;
+      this.textVersion++;
+    });
+  }
+
+  /**
+   * Set a text index (from `PDFRenderer.getTextIndex()`) so searches cover
+   * every page, rendered or not. Highlights for pages that are not rendered
+   * yet are drawn by `refreshPage()`. Pass null to search rendered spans only.
    */
-  setPages(pages: PageData[]): void {
-    const savedQuery = this.lastQuery;
-    const savedOptions = this.lastSearchOptions;
-    const savedContexts = [...this.lastContexts];
-    const savedIsMulti = this.lastIsMultiContext;
+  setTextIndex(index: PageText[] | null): void {
+    this.reapply(() => {
+      this.textIndex = index;
+      this.textVersion++;
+    });
+  }
+
+  /**
+   * Draw highlights on a page whose text layer was rendered after the search.
+   * Call this from the PDFRenderer `pagerender` event. The active match is kept.
+   */
+  refreshPage(pageIndex: number): void {
+    const pd = this.pages[pageIndex];
+    if (!pd) return;
 
-    this.clear();
-    this.pages = pages;
+    this.highlightManager.restorePage(pd);
+    if (!this.hasActiveSearch()) return;
 
-    // Re-apply search if there was an active query (e.g. after zoom)
-    if (savedIsMulti && savedContexts.length > 0) {
-      this.searchMultiple(savedContexts, savedOptions);
-    } else if (savedQuery.trim()) {
-      this.search(savedQuery, savedOptions);
+    const current = this.highlightManager.getCurrentIndex();
+    let active: MatchEntry | undefined = this.entries[current];
+
+    if (!this.textIndex?.[pageIndex]) {
+      // No index: the page could not be searched before it was rendered
+      this.textVersion++;
+      const redraw = this.searchRenderedPage(pageIndex);
+      this.highlightManager.setMatches(this.entries.map((e) => e.match));
+      redraw.forEach((i) => this.drawPage(i));
+      if (active && !this.entries.includes(active)) active = undefined;
     }
+
+    this.drawPage(pageIndex);
+
+    // Re-apply the active class to marks that did not exist before
+    if (active) {
+      const scroll = this.pendingScroll === active.match;
+      if (scroll) this.pendingScroll = null;
+      if (scroll || active.segments.some((seg) => seg.pageIndex === pageIndex)) {
+        this.highlightManager.setActiveMatch(this.entries.indexOf(active), scroll);
+      }
+    }
+
+    this.notify();
   }
 
   /**
@@ -95,128 +325,181 @@ export class SearchController {
    * Returns total number of matches.
    */
   search(query: string, options: SearchOptions = {}): number {
-    this.highlightManager.clearHighlights(this.pages);
+    this.cancelAsync();
+    this.resetMatches();
     this.lastQuery = query;
     this.lastSearchOptions = options;
     this.lastIsMultiContext = false;
     this.lastContexts = [];
+    this.lastRanges = null;
 
-    const trimmed = query.trim();
-    if (!trimmed) {
+    if (!query.trim()) {
       this.notify();
       return 0;
     }
 
-    for (const pd of this.pages) {
-      const matchRanges = searchPage(pd.spans, trimmed, options);
-      const matches = this.highlightManager.applyHighlights(pd.spans, matchRanges);
-      this.highlightManager.addMatches(matches);
-    }
-
-    const total = this.highlightManager.getTotal();
-    if (total > 0) {
-      this.highlightManager.setActiveMatch(0);
-    }
-
-    this.notify();
-    return total;
+    return this.runSearch();
   }
 
   /**
    * Search for multiple query contexts across all pages.
    * Each context is highlighted with a different CSS class (highlight-0, highlight-1, ...).
-   * Navigation (next/prev) cycles through ALL matches in document order.
+   * Navigation (next/prev) cycles through ALL matches in document order;
+   * nextInContext/prevInContext step through one context's matches.
    * Returns total number of matches across all contexts.
    */
   searchMultiple(contexts: SearchContext[], sharedOptions: SearchOptions = {}): number {
-    this.highlightManager.clearHighlights(this.pages);
+    this.cancelAsync();
+    this.resetMatches();
     this.lastContexts = contexts;
     this.lastIsMultiContext = true;
     this.lastQuery = '';
     this.lastSearchOptions = sharedOptions;
+    this.lastRanges = null;
+    this.hiddenContexts.clear();
 
-    const validContexts = contexts.filter((c) => c.query.trim());
-    if (validContexts.length === 0) {
+    if (!contexts.some((c) => c.query.trim())) {
       this.notify();
       return 0;
     }
 
-    for (const pd of this.pages) {
-      // 1. Search all contexts on this page
-      const allMatchRanges: MatchRange[][] = [];
-      const classPerMatch: string[] = [];
-
-      for (let ci = 0; ci < validContexts.length; ci++) {
-        const ctx = validContexts[ci];
-        const opts = { ...sharedOptions, ...ctx.options };
-        const pageMatches = searchPage(pd.spans, ctx.query.trim(), opts);
-
-        for (const matchRange of pageMatches) {
-          allMatchRanges.push(matchRange);
-          classPerMatch.push(`highlight-${ci % MULTI_CONTEXT_COLOR_COUNT}`);
-        }
-      }
+    return this.runSearch();
+  }
 
-      // 2. Sort all matches by document position (span index, then char offset)
-      const indices = allMatchRanges.map((_, i) => i);
-      indices.sort((a, b) => {
-        const aFirst = allMatchRanges[a][0];
-        const bFirst = allMatchRanges[b][0];
-        if (!aFirst || !bFirst) return 0;
-        if (aFirst.spanIdx !== bFirst.spanIdx) return aFirst.spanIdx - bFirst.spanIdx;
-        return aFirst.start - bFirst.start;
-      });
+  /**
+   * Like `search()`, without blocking the page: text is matched in a Web
+   * Worker (`searchWorkerSrc`) or in main-thread time slices, then highlights
+   * are drawn a few pages at a time. Progress is reported via `onProgress`.
+   *
+   * A newer search, `clear()` or `options.signal` aborts it: the promise then
+   * rejects with an AbortError and the previous results stay in place.
+   * Resolves with the total number of matches.
+   */
+  searchAsync(query: string, options: AsyncSearchOptions = {}): Promise<number> {
+    const { signal, ...searchOptions } = options;
+    return this.runSearchAsync(query, searchOptions, signal);
+  }
 
-      const sortedRanges = indices.map((i) => allMatchRanges[i]);
-      const sortedClasses = indices.map((i) => classPerMatch[i]);
+  /** Async version of `searchMultiple()` — see `searchAsync()`. */
+  searchMultipleAsync(
+    contexts: SearchContext[],
+    sharedOptions: AsyncSearchOptions = {}
+  ): Promise<number> {
+    const { signal, ...searchOptions } = sharedOptions;
+    return this.runSearchAsync([...contexts], searchOptions, signal);
+  }
 
-      // 3. Apply highlights with per-match classes
-      const matches = this.highlightManager.applyHighlights(
-        pd.spans,
-        sortedRanges,
-        sortedClasses
-      );
-      this.highlightManager.addMatches(matches);
-    }
+  /**
+   * Highlight ranges without searching, e.g. citations given as page text
+   * offsets or as rects in PDF points. Replaces the current search or ranges;
+   * next/prev navigate the highlighted ranges, and they are re-applied on new
+   * pages (zoom) like a search. Ranges that cover no text are skipped.
+   * Returns the number of highlighted ranges.
+   */
+  highlightRanges(ranges: HighlightRange[]): number {
+    this.cancelAsync();
+    this.resetMatches();
+    this.lastRanges = [...ranges];
+    this.lastQuery = '';
+    this.lastContexts = [];
+    this.lastIsMultiContext = false;
+    this.lastSearchOptions = {};
 
-    const total = this.highlightManager.getTotal();
-    if (total > 0) {
-      this.highlightManager.setActiveMatch(0);
+    if (ranges.length === 0) {
+      this.notify();
+      return 0;
     }
 
-    this.notify();
-    return total;
+    return this.runSearch();
   }
 
-  /** Navigate to next match. Returns new index. */
+  /** Navigate to next match (skipping hidden contexts). Returns new index. */
   next(): number {
-    const idx = this.highlightManager.next();
-    this.notify();
-    return idx;
+    return this.step(1);
   }
 
-  /** Navigate to previous match. Returns new index. */
+  /** Navigate to previous match (skipping hidden contexts). Returns new index. */
   prev(): number {
-    const idx = this.highlightManager.prev();
-    this.notify();
-    return idx;
+    return this.step(-1);
+  }
+
+  /**
+   * Navigate to the next match of one context (wraps around), e.g. to step
+   * through one query's hits only. Returns the new overall index, -1 if the
+   * context has no visible matches.
+   */
+  nextInContext(contextIndex: number): number {
+    return this.step(1, contextIndex);
+  }
+
+  /** Navigate to the previous match of one context — see `nextInContext()`. */
+  prevInContext(contextIndex: number): number {
+    return this.step(-1, contextIndex);
   }
 
   /** Go to a specific match by index. */
   goTo(index: number): void {
     this.highlightManager.setActiveMatch(index);
+    this.revealMatch(index);
     this.notify();
   }
 
-  /** Clear all highlights. */
+  /** Clear all highlights. Hidden contexts become visible again. */
   clear(): void {
-    this.highlightManager.clearHighlights(this.pages);
+    this.cancelAsync();
+    this.resetMatches();
     this.lastQuery = '';
     this.lastContexts = [];
     this.lastIsMultiContext = false;
+    this.lastRanges = null;
+    this.hiddenContexts.clear();
+    this.notify();
+  }
+
+  /**
+   * Show or hide the highlights of one multi-context search context without
+   * searching again. Hidden matches keep counting in `total` but are skipped
+   * by navigation. A new `searchMultiple()` shows every context again;
+   * re-applying the same search on new pages (zoom) keeps visibility.
+   */
+  setContextVisible(contextIndex: number, visible: boolean): void {
+    if (visible === this.isContextVisible(contextIndex)) return;
+    if (visible) this.hiddenContexts.delete(contextIndex);
+    else this.hiddenContexts.add(contextIndex);
+
+    // Redraw the pages the context has matches on
+    const pageIndexes = new Set<number>();
+    for (const entry of this.entries) {
+      if (entry.contextIndex !== contextIndex) continue;
+      entry.segments.forEach((seg) => pageIndexes.add(seg.pageIndex));
+    }
+    pageIndexes.forEach((i) => this.drawPage(i));
+
+    // Re-apply the active class to redrawn marks
+    const current = this.highlightManager.getCurrentIndex();
+    if (current >= 0) this.highlightManager.setActiveMatch(current, false);
     this.notify();
   }
 
+  /** Whether a context's highlights are shown (see `setContextVisible()`). */
+  isContextVisible(contextIndex: number): boolean {
+    return !this.hiddenContexts.has(contextIndex);
+  }
+
+  /**
+   * Index (0-based) of the active match among the matches of one context,
+   * -1 if the active match belongs to another context or there is none.
+   */
+  currentInContext(contextIndex: number): number {
+    const current = this.highlightManager.getCurrentIndex();
+    if (this.entries[current]?.contextIndex !== contextIndex) return -1;
+    let index = 0;
+    for (let i = 0; i < current; i++) {
+      if (this.entries[i].contextIndex === contextIndex) index++;
+    }
+    return index;
+  }
+
   /** Current match index (0-based). -1 if none. */
   get current(): number {
     return this.highlightManager.getCurrentIndex();
@@ -227,16 +510,527 @@ export class SearchController {
     return this.highlightManager.getTotal();
   }
 
+  /** Whether an async search is running. */
+  get searching(): boolean {
+    return this.asyncAbort !== null;
+  }
+
   /** Last searched query. */
   get query(): string {
     return this.lastQuery;
   }
 
+  /** Last highlighted ranges (see `highlightRanges()`), empty after a search. */
+  get ranges(): HighlightRange[] {
+    return this.lastRanges ?? [];
+  }
+
   /** Last searched contexts (for multi-context search). */
   get contexts(): SearchContext[] {
     return this.lastContexts;
   }
 
+  /** Number of matches per context (aligned with `contexts`). */
+  get totalsPerContext(): number[] {
+    const totals = this.lastContexts.map(() => 0);
+    if (totals.length > 0) this.entries.forEach((e) => totals[e.contextIndex]++);
+    return totals;
+  }
+
+  /**
+   * Color, label, match total, active match and visibility of each context of
+   * the last multi-context search (empty for a single search). Aligned with
+   * `contexts`.
+   */
+  getLegend(): ContextLegendEntry[] {
+    if (!this.lastIsMultiContext) return [];
+    const totals = this.totalsPerContext;
+    return this.lastContexts.map((ctx, ci) => {
+      const { className, color } = contextStyle(ctx, ci);
+      return {
+        contextIndex: ci,
+        label: ctx.label ?? ctx.query,
+        query: ctx.query,
+        className,
+        color: color ?? paletteColor(ctx, ci),
+        total: totals[ci],
+        current: this.currentInContext(ci),
+        visible: this.isContextVisible(ci),
+      };
+    });
+  }
+
+  /**
+   * All matches in document order, with their page, offsets, text,
+   * snippet, context index and fuzzy distance — e.g. for a results list.
+   * Pass an index to `goTo()` to activate one.
+   */
+  getMatches(): SearchMatch[] {
+    return this.entries.map((e) => e.match);
+  }
+
+  /**
+   * Number of matches on each page (aligned with the pages passed to setPages).
+   * A cross-page match counts on the page where it starts.
+   */
+  getPageMatchCounts(): number[] {
+    const counts = new Array<number>(this.pageCount()).fill(0);
+    this.entries.forEach((e) => counts[e.segments[0].pageIndex]++);
+    return counts;
+  }
+
+  /**
+   * The visible matches as highlights to write into the PDF file (see
+   * `exportAnnotatedPDF`), in their context or range color. Matches without
+   * geometry are left out.
+   */
+  getExportHighlights(): ExportHighlight[] {
+    return this.entries
+      .filter((e) => this.isEntryVisible(e))
+      .flatMap((e) => {
+        const color = e.color ?? this.contextPaletteColor(e.contextIndex);
+        return (e.match.geometry ?? []).map((g) => ({
+          pageIndex: g.pageIndex,
+          rects: g.pdfRects,
+          ...(color && { color }),
+        }));
+      });
+  }
+
+  /** Abort any async search and stop the search worker. */
+  destroy(): void {
+    this.cancelAsync();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  /**
+   * Activate the next (`delta` 1) or previous (-1) visible match, optionally
+   * of one context only. Returns its index, -1 (and no change) if none.
+   */
+  private step(delta: 1 | -1, contextIndex?: number): number {
+    const idx = this.findEntry(this.highlightManager.getCurrentIndex(), delta, contextIndex);
+    if (idx < 0) return -1;
+    this.highlightManager.setActiveMatch(idx);
+    this.revealMatch(idx);
+    this.notify();
+    return idx;
+  }
+
+  /**
+   * Index of the first visible entry after (`delta` 1) or before (-1) `from`,
+   * wrapping around. From -1, searches from the start or the end.
+   */
+  private findEntry(from: number, delta: 1 | -1, contextIndex?: number): number {
+    const n = this.entries.length;
+    const base = from >= 0 ? from : delta > 0 ? -1 : n;
+    for (let k = 1; k <= n; k++) {
+      const idx = (((base + delta * k) % n) + n) % n;
+      const entry = this.entries[idx];
+      if (!this.isEntryVisible(entry)) continue;
+      if (contextIndex === undefined || entry.contextIndex === contextIndex) return idx;
+    }
+    return -1;
+  }
+
+  /** Palette color of a multi-context search context drawn with a `highlight-N` class. */
+  private contextPaletteColor(contextIndex: number): string | null {
+    const ctx = this.lastContexts[contextIndex];
+    return this.lastIsMultiContext && ctx ? paletteColor(ctx, contextIndex) : null;
+  }
+
+  /** Hidden contexts only apply to multi-context searches. */
+  private isEntryVisible(entry: MatchEntry): boolean {
+    return !this.lastIsMultiContext || this.isContextVisible(entry.contextIndex);
+  }
+
+  private hasActiveSearch(): boolean {
+    if (this.lastRanges) return this.lastRanges.length > 0;
+    return this.lastIsMultiContext
+      ? this.lastContexts.some((c) => c.query.trim())
+      : this.lastQuery.trim().length > 0;
+  }
+
+  /**
+   * Clear highlights, apply a state change, then re-run the last search
+   * (e.g. new pages after zoom, or a new text index). An async search in
+   * flight keeps running and notices the change before showing results.
+   */
+  private reapply(update: () => void): void {
+    this.resetMatches();
+    update();
+
+    // Re-apply search if there was an active query (e.g. after zoom)
+    if (this.hasActiveSearch()) {
+      this.runSearch();
+    } else {
+      this.notify();
+    }
+  }
+
+  private resetMatches(): void {
+    this.highlightManager.clearHighlights(this.pages);
+    this.entries = [];
+    this.pendingScroll = null;
+  }
+
+  private runSearch(): number {
+    this.searchError = null;
+    this.validateQueries();
+    this.entries = this.searchAll();
+    this.highlightManager.setMatches(this.entries.map((e) => e.match));
+    this.pages.forEach((_, i) => this.drawPage(i));
+
+    const total = this.highlightManager.getTotal();
+    const first = this.findEntry(-1, 1);
+    if (first >= 0) {
+      this.highlightManager.setActiveMatch(first);
+      this.revealMatch(first);
+    }
+
+    if (this.searchError) this.onError?.(this.searchError);
+    this.notify();
+    return total;
+  }
+
+  /** Number of pages known from the pages or the text index. */
+  private pageCount(): number {
+    return Math.max(this.pages.length, this.textIndex?.length ?? 0);
+  }
+
+  /**
+   * Text of a page to search: the index if there is one,
+   * otherwise its rendered spans. Null if neither is available.
+   */
+  private pageSpans(pageIndex: number): TextSpan[] | null {
+    const indexed = this.textIndex?.[pageIndex];
+    if (indexed) return indexed.spans;
+    const pd = this.pages[pageIndex];
+    return pd && pd.rendered !== false ? pd.spans : null;
+  }
+
+  /** The single query, or every non-empty context with its merged options. */
+  private activeQueries(): ActiveQuery[] {
+    if (this.lastRanges) return [];
+    return buildQueries(
+      this.lastIsMultiContext ? this.lastContexts : this.lastQuery,
+      this.lastSearchOptions
+    );
+  }
+
+  /** Text of every page, `null` where none is available yet. */
+  private searchablePages(): Array<TextSpan[] | null> {
+    return Array.from({ length: this.pageCount() }, (_, i) => this.pageSpans(i));
+  }
+
+  /**
+   * Run every active query over the document (or map the highlighted ranges).
+   * Entries are in document order.
+   */
+  private searchAll(): MatchEntry[] {
+    if (this.lastRanges) return this.buildRangeEntries(this.lastRanges);
+    const queries = this.activeQueries();
+    return this.buildEntries(queries, runSearchTasks(this.searchablePages(), queries));
+  }
+
+  /**
+   * Search a page that had no text before it was rendered and merge its
+   * matches into the entries, in document order. Its neighbours are searched
+   * with it for matches across the page break; other pages are not searched
+   * again. Returns the other pages whose highlights changed (a passage
+   * replaced by a better one on this page).
+   */
+  private searchRenderedPage(pageIndex: number): number[] {
+    if (this.lastRanges) {
+      this.entries = [...this.entries, ...this.buildRangeEntries(this.lastRanges, pageIndex)].sort(
+        compareEntries
+      );
+      return [];
+    }
+
+    const pages = this.searchablePages().map((spans, i) => (Math.abs(i - pageIndex) <= 1 ? spans : null));
+    const queries = this.activeQueries();
+    const found = this.buildEntries(queries, runSearchTasks(pages, queries)).filter((e) =>
+      e.segments.some((seg) => seg.pageIndex === pageIndex)
+    );
+
+    // A passage is the best one in the document: keep the higher scoring one
+    const replaced: MatchEntry[] = [];
+    const added = found.filter((e) => {
+      if (!queries.find((q) => q.contextIndex === e.contextIndex)?.options.passage) return true;
+      const current = this.entries.find((c) => c.contextIndex === e.contextIndex);
+      if (current && (current.match.score ?? 0) >= (e.match.score ?? 0)) return false;
+      if (current) replaced.push(current);
+      return true;
+    });
+
+    this.entries = [...this.entries.filter((e) => !replaced.includes(e)), ...added].sort(compareEntries);
+    return [...new Set(replaced.flatMap((e) => e.segments.map((seg) => seg.pageIndex)))];
+  }
+
+  /**
+   * Turn task results into entries in document order. The first error
+   * (slow regex, ...) is recorded, so one bad query does not abort the others.
+   */
+  private buildEntries(queries: ActiveQuery[], results: SearchTaskResult[]): MatchEntry[] {
+    const entries: MatchEntry[] = [];
+    const getLayout = this.layoutCache();
+    results.forEach(({ matches, error }, k) => {
+      const q = queries[k];
+      if (error) this.searchError ??= error;
+      for (const { segments, distance, score } of matches) {
+        if (segments.length === 0) continue;
+        const details = {
+          contextIndex: q.contextIndex,
+          distance,
+          ...(score !== undefined && { score }),
+        };
+        entries.push(this.createEntry(segments, getLayout, details, q));
+      }
+    });
+    return entries.sort(compareEntries);
+  }
+
+  /** Entries for highlighted ranges (on one page if given), in document order. */
+  private buildRangeEntries(ranges: HighlightRange[], onlyPage?: number): MatchEntry[] {
+    const entries: MatchEntry[] = [];
+    const getLayout = this.layoutCache();
+    ranges.forEach((range, rangeIndex) => {
+      const pageIndex = range.pageNumber - 1;
+      if (onlyPage !== undefined && pageIndex !== onlyPage) return;
+      const spans = this.pageSpans(pageIndex);
+      if (!spans) return;
+      const matchRanges = range.rects
+        ? findRangesInRects(spans, range.rects)
+        : rangesForOffsets(getLayout(pageIndex), spans, range.start ?? 0, range.end ?? 0);
+      if (matchRanges.length === 0) return;
+      entries.push(
+        this.createEntry(
+          [{ pageIndex, ranges: matchRanges }],
+          getLayout,
+          { rangeIndex },
+          { contextIndex: 0, ...rangeStyle(range) }
+        )
+      );
+    });
+    return entries.sort(compareEntries);
+  }
+
+  /** Page text layouts of the searched text, computed once per page. */
+  private layoutCache(): (pageIndex: number) => PageTextLayout {
+    const layouts = new Map<number, PageTextLayout>();
+    return (pageIndex) => {
+      let layout = layouts.get(pageIndex);
+      if (!layout) {
+        layout = layoutPageText(this.pageSpans(pageIndex) ?? []);
+        layouts.set(pageIndex, layout);
+      }
+      return layout;
+    };
+  }
+
+  /** An entry with the match's position, text, snippet and geometry. */
+  private createEntry(
+    segments: PageMatchSegment[],
+    getLayout: (pageIndex: number) => PageTextLayout,
+    details: Pick<SearchMatch, 'contextIndex' | 'distance' | 'score' | 'rangeIndex'>,
+    style: { contextIndex: number; className?: string; color?: string }
+  ): MatchEntry {
+    // Rendered spans (index-aligned with the searched ones) are measured in the text layer
+    const geometry = getMatchGeometry(
+      segments,
+      (pageIndex) => {
+        const pd = this.pages[pageIndex];
+        return pd && pd.rendered !== false && pd.spans.length > 0 ? pd.spans : this.pageSpans(pageIndex);
+      },
+      (pageIndex) => this.pages[pageIndex]?.viewport
+    );
+    return {
+      match: {
+        marks: [],
+        ...describeMatch(segments, getLayout, this.snippetLength),
+        ...details,
+        ...(geometry && { geometry }),
+      },
+      segments: segments.map((seg) => ({ ...seg, marks: [] })),
+      className: style.className,
+      color: style.color,
+      contextIndex: style.contextIndex,
+    };
+  }
+
+  /** Record the first query that cannot be run, before touching any page. */
+  private validateQueries(queries: ActiveQuery[] = this.activeQueries()): void {
+    for (const { query, options } of queries) {
+      try {
+        if (options.passage) continue;
+        if (options.boolean) parseBooleanQuery(query);
+        else validateQuery(query, options);
+      } catch (err) {
+        this.searchError = err instanceof Error ? err : new Error(String(err));
+        return;
+      }
+    }
+  }
+
+  private cancelAsync(): void {
+    this.asyncAbort?.abort();
+    this.asyncAbort = null;
+  }
+
+  private async runSearchAsync(
+    search: string | SearchContext[],
+    options: SearchOptions,
+    signal?: AbortSignal
+  ): Promise<number> {
+    this.cancelAsync();
+    const abort = new AbortController();
+    this.asyncAbort = abort;
+    const isCurrent = () => this.asyncAbort === abort;
+    const onAbort = () => abort.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      if (signal?.aborted) throw createAbortError();
+      const queries = buildQueries(search, options);
+      let error: Error | null = null;
+      let entries: MatchEntry[] = [];
+
+      if (queries.length > 0) {
+        this.searchError = null;
+        this.validateQueries(queries);
+        const validationError = this.searchError;
+        // Match again if the text changed meanwhile (zoom, new index, page render)
+        let version: number;
+        do {
+          version = this.textVersion;
+          const results = await this.matchAsync(queries, abort.signal);
+          this.searchError = validationError;
+          entries = this.buildEntries(queries, results);
+        } while (version !== this.textVersion);
+        error = this.searchError;
+      }
+      if (!isCurrent()) throw createAbortError();
+
+      // Show the results: from here on the search is no longer abortable
+      signal?.removeEventListener('abort', onAbort);
+      this.pendingScroll = null;
+      this.lastIsMultiContext = typeof search !== 'string';
+      this.lastQuery = typeof search === 'string' ? search : '';
+      this.lastContexts = typeof search === 'string' ? [] : search;
+      this.lastSearchOptions = options;
+      this.lastRanges = null;
+      this.hiddenContexts.clear();
+      this.entries = entries;
+      this.highlightManager.setMatches(entries.map((e) => e.match));
+
+      // Draw highlights a few pages at a time; a newer search redraws everything
+      let sliceStart = Date.now();
+      for (let i = 0; i < this.pages.length; i++) {
+        this.drawPage(i);
+        if (Date.now() - sliceStart > DRAW_SLICE_MS) {
+          await yieldToEventLoop();
+          if (!isCurrent()) throw createAbortError();
+          sliceStart = Date.now();
+        }
+      }
+
+      const total = this.highlightManager.getTotal();
+      const first = this.findEntry(-1, 1);
+      if (first >= 0) {
+        this.highlightManager.setActiveMatch(first);
+        this.revealMatch(first);
+      }
+      if (error) this.onError?.(error);
+      this.notify();
+      return total;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      if (isCurrent()) this.asyncAbort = null;
+    }
+  }
+
+  /** Match queries in the worker, falling back to main-thread time slices. */
+  private async matchAsync(
+    queries: ActiveQuery[],
+    signal: AbortSignal
+  ): Promise<SearchTaskResult[]> {
+    const tasks = queries.map(({ query, options }) => ({ query, options }));
+    const onProgress = (progress: SearchProgress) => this.onProgress?.(progress);
+
+    if (this.workerSrc && typeof Worker !== 'undefined') {
+      try {
+        this.worker ??= new SearchWorkerClient(this.workerSrc);
+        return await this.worker.search(
+          this.textVersion,
+          () => this.searchablePages(),
+          tasks,
+          { signal, onProgress }
+        );
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        // Worker unavailable (bad URL, CSP, ...): search on the main thread from now on
+        this.worker?.terminate();
+        this.worker = null;
+        this.workerSrc = null;
+      }
+    }
+    return runSearchTasksAsync(this.searchablePages(), tasks, { signal, onProgress });
+  }
+
+  /** (Re)create the marks (or rectangles) for the matches on a rendered page. */
+  private drawPage(pageIndex: number): void {
+    const pd = this.pages[pageIndex];
+    if (!pd || pd.rendered === false) return;
+    // Overlay rects are replaced by renderPage once measured, marks are cleared first
+    if (pd.container.querySelector('mark')) this.highlightManager.restorePage(pd);
+
+    const onPage: Array<{ entry: MatchEntry; segment: MatchSegment }> = [];
+    for (const entry of this.entries) {
+      const visible = this.isEntryVisible(entry);
+      for (const segment of entry.segments) {
+        if (segment.pageIndex !== pageIndex) continue;
+        if (visible) {
+          onPage.push({ entry, segment });
+        } else {
+          segment.marks = [];
+          entry.match.marks = entry.segments.flatMap((seg) => seg.marks);
+        }
+      }
+    }
+    if (onPage.length === 0) {
+      if (this.highlightManager.mode === 'overlay') this.highlightManager.restorePage(pd);
+      return;
+    }
+
+    const marks = this.highlightManager.renderPage(
+      pd,
+      onPage.map((o) => o.segment.ranges),
+      onPage.map((o) => o.entry.className),
+      onPage.map((o) => o.entry.color)
+    );
+    onPage.forEach(({ entry, segment }, k) => {
+      segment.marks = marks[k];
+      entry.match.marks = entry.segments.flatMap((seg) => seg.marks);
+    });
+  }
+
+  /**
+   * Scroll to a match whose page is not rendered yet. Its marks are
+   * scrolled to once the page renders (see refreshPage).
+   */
+  private revealMatch(index: number): void {
+    const entry = this.entries[index];
+    this.pendingScroll = null;
+    if (!entry || entry.match.marks.length > 0 || !this.autoScroll) return;
+
+    this.pendingScroll = entry.match;
+    this.pages[entry.segments[0].pageIndex]?.container.scrollIntoView({
+      behavior: 'smooth',
+      block: 'start',
+    });
+  }
+
   private notify(): void {
     this.onChange?.({
       current: this.highlightManager.getCurrentIndex(),
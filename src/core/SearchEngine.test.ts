@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import { fuzzySearchText, searchPage, validateQuery } from './SearchEngine';
+import type { TextSpan } from '../types';
+
+const span = (text: string, hasEOL = false): TextSpan => ({ text, hasEOL });
+
+/** The matched text of each match, joined over its span ranges. */
+function matchedText(spans: TextSpan[], query: string, options = {}): string[] {
+  return searchPage(spans, query, options).map((ranges) =>
+    ranges.map((r) => spans[r.spanIdx].text.slice(r.start, r.end)).join('|')
+  );
+}
+
+describe('regex search', () => {
+  const spans = [span('Invoice INV-123456 and INV-654321 '), span('dated 2024-01-02', true)];
+
+  it('finds every match of a pattern', () => {
+    expect(matchedText(spans, 'INV-\\d{6}', { regex: true })).toEqual(['INV-123456', 'INV-654321']);
+  });
+
+  it('skips empty matches', () => {
+    expect(matchedText(spans, 'x*', { regex: true })).toEqual([]);
+  });
+
+  it('rejects invalid patterns', () => {
+    expect(() => validateQuery('(abc', { regex: true })).toThrow(/Invalid search pattern/);
+  });
+
+  it.each(['(a+)+', '(\\w*\\s?)*', '(a*){3}', '([a-z]+){2,}'])(
+    'rejects the nested quantifier %s',
+    (pattern) => {
+      expect(() => validateQuery(pattern, { regex: true })).toThrow(/may hang the page/);
+    }
+  );
+
+  it.each(['(a|aa)*b', '(\\w|\\d)+$', '(?:x|xy){2,}z', '((a|b)c)+'])(
+    'rejects the repeated alternation %s',
+    (pattern) => {
+      expect(() => validateQuery(pattern, { regex: true })).toThrow(/may hang the page/);
+    }
+  );
+
+  it.each(['INV-\\d{6}', '(ab)+', 'a+b+', '(?:a|b)c', '(foo|bar){2}', 'cat|dog', '[(a|b)]+', '\\(a|b\\)+'])(
+    'accepts the safe pattern %s',
+    (pattern) => {
+      expect(() => validateQuery(pattern, { regex: true })).not.toThrow();
+    }
+  );
+
+  it('does not hang on a catastrophic input', () => {
+    const text = [span('a'.repeat(40) + '!')];
+    expect(() => searchPage(text, '(a|aa)*b', { regex: true })).toThrow(/may hang the page/);
+  });
+});
+
+describe('folding', () => {
+  it('matches ligatures and full-width forms by their NFKC form', () => {
+    const spans = [span('ﬁnancial ＡＢＣ report')];
+    expect(matchedText(spans, 'financial')).toEqual(['ﬁnancial']);
+    expect(matchedText(spans, 'abc')).toEqual(['ＡＢＣ']);
+    expect(matchedText(spans, 'financial', { normalize: false })).toEqual([]);
+  });
+
+  it('ignores diacritics only when asked', () => {
+    // Precomposed and decomposed (e + combining acute) accents
+    const spans = [span('résumé and re\u0301sume\u0301')];
+    expect(matchedText(spans, 'resume', { ignoreDiacritics: true })).toEqual([
+      'résumé',
+      're\u0301sume\u0301',
+    ]);
+    expect(matchedText(spans, 'resume')).toEqual([]);
+    expect(matchedText(spans, 'résumé')).toEqual(['résumé', 're\u0301sume\u0301']);
+  });
+
+  it('folds case unless caseSensitive', () => {
+    const spans = [span('Straße STRASSE')];
+    expect(matchedText(spans, 'straße')).toEqual(['Straße']);
+    expect(matchedText(spans, 'strasse', { caseSensitive: true })).toEqual([]);
+  });
+
+  it('drops soft hyphens but keeps them highlighted', () => {
+    const spans = [span('co\u00ADoperate')];
+    expect(matchedText(spans, 'cooperate', { flexibleWhitespace: false })).toEqual(['co\u00ADoperate']);
+  });
+});
+
+describe('line reconstruction', () => {
+  const exact = { flexibleWhitespace: false };
+
+  it('separates lines with a space', () => {
+    const spans = [span('the end', true), span('of the line', true)];
+    expect(matchedText(spans, 'end of', exact)).toEqual(['end|of']);
+    expect(matchedText(spans, 'endof', exact)).toEqual([]);
+  });
+
+  it('dehyphenates a word broken before a lowercase letter', () => {
+    const spans = [span('an agree-', true), span('ment was reached', true)];
+    expect(matchedText(spans, 'agreement', exact)).toEqual(['agree-|ment']);
+    expect(matchedText(spans, 'agree-ment', exact)).toEqual([]);
+  });
+
+  it('keeps the hyphen before an uppercase letter, without a space', () => {
+    const spans = [span('well-', true), span('Known names', true)];
+    expect(matchedText(spans, 'well-known', exact)).toEqual(['well-|Known']);
+    expect(matchedText(spans, 'wellknown', exact)).toEqual([]);
+  });
+
+  it('does not join lines that already end in whitespace', () => {
+    const spans = [span('end ', true), span('of', true)];
+    expect(matchedText(spans, 'end of', exact)).toEqual(['end |of']);
+  });
+});
+
+/** Lowest edit distance of `query` to any substring of `text` (plain DP). */
+function bestDistance(text: string, query: string): number {
+  let prev = Array.from({ length: query.length + 1 }, (_, j) => j);
+  let best = prev[query.length];
+  for (const c of text) {
+    const row = [0];
+    for (let j = 1; j <= query.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (c === query[j - 1] ? 0 : 1));
+    }
+    prev = row;
+    best = Math.min(best, row[query.length]);
+  }
+  return best;
+}
+
+/** Deterministic pseudo-random text over a small alphabet (many near matches). */
+function randomText(length: number, seed: number): string {
+  let x = seed;
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    x = (x * 1103515245 + 12345) % 2147483648;
+    text += 'abcd'[x % 4];
+  }
+  return text;
+}
+
+describe('fuzzy search', () => {
+  it('finds a match with a typo and reports its distance', () => {
+    const text = 'please recieve the parcel';
+    const found = fuzzySearchText(text, 'receive', 2);
+    expect(found).toHaveLength(1);
+    expect(found[0].distance).toBe(2);
+    expect(text.slice(found[0].start, found[0].end)).toBe('recieve');
+  });
+
+  it('merges overlapping candidates into the closest one', () => {
+    const text = 'color colour';
+    const found = fuzzySearchText(text, 'colour', 1);
+    expect(found.map((m) => [text.slice(m.start, m.end), m.distance])).toEqual([
+      ['color', 1],
+      ['colour', 0],
+    ]);
+  });
+
+  it.each([5, 31, 32, 33, 64, 70])('agrees with a plain DP for a %i-char query', (length) => {
+    const text = randomText(600, length);
+    const query = randomText(length, length + 1);
+    const maxErrors = Math.floor(length * 0.4);
+    const found = fuzzySearchText(text, query, maxErrors);
+    const expected = bestDistance(text, query);
+    if (expected > maxErrors) {
+      expect(found).toEqual([]);
+    } else {
+      expect(Math.min(...found.map((m) => m.distance))).toBe(expected);
+    }
+    for (const m of found) {
+      expect(m.distance).toBeLessThanOrEqual(maxErrors);
+      expect(bestDistance(text.slice(m.start, m.end), query)).toBe(m.distance);
+    }
+  });
+
+  it('finds a long query spanning several bit blocks', () => {
+    const passage = 'the quick brown fox jumps over the lazy dog near the river bank';
+    const text = `intro ${passage.replace('lazy', 'lacy').replace('river', 'rivr')} outro`;
+    const found = fuzzySearchText(text, passage, 5);
+    expect(found).toHaveLength(1);
+    expect(found[0].distance).toBe(2);
+    expect(text.slice(found[0].start, found[0].end)).toBe(text.slice(6, -6));
+  });
+
+  it('searches pages with the fuzzy option and threshold', () => {
+    const spans = [span('Please recieve the', true), span('parcel', true)];
+    expect(matchedText(spans, 'receive', { fuzzy: true })).toEqual(['recieve']);
+    expect(matchedText(spans, 'receive', { fuzzy: true, fuzzyThreshold: 0.9 })).toEqual([]);
+    expect(matchedText(spans, 'the parcel', { fuzzy: true })).toEqual(['the|parcel']);
+  });
+});
@@ -1,8 +1,25 @@
-import type { SearchOptions, SpanData } from '../types';
+import type { SearchOptions, TextSpan } from '../types';
 
 export interface CharMapEntry {
   spanIdx: number;
+  /** Start of the source chars this fullText char came from. */
   charIdx: number;
+  /**
+   * End (exclusive) of the source chars. Usually charIdx + 1; wider when
+   * normalization maps several chars (e.g. "e" + combining accent) to one,
+   * and shared by every char a glyph expands to (e.g. "ﬁ" → "f", "i").
+   */
+  charEnd: number;
+}
+
+/** How text and queries are folded before matching. */
+interface TextFold {
+  /** NFKC: ligatures, full-width forms, compatibility chars. */
+  normalize: boolean;
+  /** Strip combining marks after canonical decomposition. */
+  ignoreDiacritics: boolean;
+  /** Lowercase (fuzzy mode — regex modes use the `i` flag instead). */
+  lowerCase: boolean;
 }
 
 export interface MatchRange {
@@ -11,11 +28,73 @@ export interface MatchRange {
   end: number;
 }
 
+/** The part of a (possibly cross-page) match that lies on one page. */
+export interface PageMatchSegment {
+  pageIndex: number;
+  ranges: MatchRange[];
+}
+
+/** A match on one page. */
+export interface PageMatch {
+  ranges: MatchRange[];
+  /** Edit distance to the query (fuzzy search); 0 otherwise. */
+  distance: number;
+}
+
+/** A match in a multi-page search, as per-page segments in page order. */
+export interface DocumentMatch {
+  segments: PageMatchSegment[];
+  /** Edit distance to the query (fuzzy search); 0 otherwise. */
+  distance: number;
+  /** Alignment score (`passage` mode only). */
+  score?: number;
+}
+
 export interface SearchResult {
   /** Array of span ranges for each match */
   matchRanges: MatchRange[][];
 }
 
+/** Max matches collected per page in regex mode. */
+const REGEX_MAX_MATCHES = 10000;
+
+/** Time budget (ms) for running a user regex over one page. */
+const REGEX_TIME_BUDGET_MS = 250;
+
+/** Max length of a user regex pattern. */
+const REGEX_MAX_PATTERN_LENGTH = 1000;
+
+/** Letters, digits and underscore in any script. */
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+
+const COMBINING_MARK = /\p{M}/u;
+
+const SOFT_HYPHEN = '\u00ad';
+
+/** Chars treated as a line-end hyphen: hyphen-minus, hyphen, non-breaking hyphen. */
+const HYPHENS = ['-', '\u2010', '\u2011'];
+const COMBINING_MARKS = /\p{M}/gu;
+
+function getFold(options: SearchOptions, lowerCase = false): TextFold {
+  return {
+    normalize: options.normalize ?? true,
+    ignoreDiacritics: options.ignoreDiacritics ?? false,
+    lowerCase,
+  };
+}
+
+/** Apply a fold to a string (a query, or one base char + its combining marks). */
+function foldText(text: string, fold: TextFold): string {
+  let out = fold.normalize ? text.normalize('NFKC') : text;
+  if (fold.ignoreDiacritics) {
+    out = out.normalize('NFD').replace(COMBINING_MARKS, '').normalize('NFC');
+  }
+  return fold.lowerCase ? out.toLowerCase() : out;
+}
+
+/** Accepts or rejects a match by its [start, end) in fullText. */
+type MatchFilter = (start: number, end: number) => boolean;
+
 function escapeRegex(s: string): string {
   return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
@@ -36,7 +115,7 @@ function buildFlexibleRegex(
   query: string,
   options: SearchOptions
 ): RegExp | null {
-  const trimmed = query.trim();
+  const trimmed = foldText(query, getFold(options)).trim();
   if (!trimmed) return null;
 
   const isCaseSensitive = options.caseSensitive ?? false;
@@ -64,91 +143,192 @@ function buildFlexibleRegex(
   return new RegExp(pattern, isCaseSensitive ? 'g' : 'gi');
 }
 
-interface FuzzyMatch {
+/**
+ * Detect quantified groups that can backtrack catastrophically: nested
+ * unbounded quantifiers such as `(a+)+` or `(\w*\s?)*`, and unbounded
+ * repeats of an alternation such as `(a|aa)*b` or `(\w|\d)+$`, whose
+ * branches may match the same text.
+ */
+function hasRiskyQuantifier(pattern: string): boolean {
+  // Per open group: whether it contains an unbounded quantifier / an alternation
+  const stack: Array<{ unbounded: boolean; alternation: boolean }> = [
+    { unbounded: false, alternation: false },
+  ];
+  let closed = { unbounded: false, alternation: false };
+  let afterGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+
+    if (c === '\\') {
+      i++;
+      afterGroup = false;
+      continue;
+    }
+    if (c === '[') {
+      // Skip character class
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+      afterGroup = false;
+      continue;
+    }
+    if (c === '(') {
+      stack.push({ unbounded: false, alternation: false });
+      afterGroup = false;
+      continue;
+    }
+    if (c === ')') {
+      closed = stack.length > 1 ? stack.pop()! : { unbounded: false, alternation: false };
+      const parent = stack[stack.length - 1];
+      parent.unbounded ||= closed.unbounded;
+      parent.alternation ||= closed.alternation;
+      afterGroup = true;
+      continue;
+    }
+    if (c === '|') {
+      stack[stack.length - 1].alternation = true;
+      afterGroup = false;
+      continue;
+    }
+
+    const repeat = c === '{' ? /^\{(\d*)(,(\d*))?\}/.exec(pattern.slice(i)) : null;
+    const unbounded = c === '*' || c === '+' || (!!repeat && !!repeat[2] && !repeat[3]);
+    const repeats = unbounded || (!!repeat && Number(repeat[3] ?? repeat[1]) > 1);
+
+    if (afterGroup && repeats && closed.unbounded) return true;
+    if (afterGroup && unbounded && closed.alternation) return true;
+    if (unbounded) stack[stack.length - 1].unbounded = true;
+    afterGroup = false;
+  }
+  return false;
+}
+
+/**
+ * Compile a user-supplied regex query.
+ * Throws an Error for invalid or potentially catastrophic patterns.
+ */
+function buildUserRegex(query: string, options: SearchOptions): RegExp {
+  if (query.length > REGEX_MAX_PATTERN_LENGTH) {
+    throw new Error(`Search pattern is too long (max ${REGEX_MAX_PATTERN_LENGTH} characters)`);
+  }
+  if (hasRiskyQuantifier(query)) {
+    throw new Error(
+      `Search pattern "${query}" repeats a nested quantifier or an alternation and may hang the page`
+    );
+  }
+  try {
+    return new RegExp(query, options.caseSensitive ? 'g' : 'gi');
+  } catch (err) {
+    throw new Error(`Invalid search pattern: ${(err as Error).message}`);
+  }
+}
+
+/**
+ * Run a global regex over text and collect [start, end) of each match.
+ * Empty matches and matches rejected by `accept` are skipped. With a
+ * `budgetMs`, stops with an Error when the text takes longer than that
+ * and caps the number of matches (user regexes).
+ */
+function execAll(
+  regex: RegExp,
+  text: string,
+  accept?: MatchFilter,
+  budgetMs?: number
+): Array<{ start: number; end: number }> {
+  const found: Array<{ start: number; end: number }> = [];
+  const guarded = budgetMs !== undefined;
+  const startedAt = guarded ? Date.now() : 0;
+  let m: RegExpExecArray | null;
+  regex.lastIndex = 0;
+
+  while ((m = regex.exec(text)) !== null) {
+    const start = m.index;
+    const end = start + m[0].length;
+    if (start === end) {
+      regex.lastIndex++;
+    } else if (accept && !accept(start, end)) {
+      // Retry from the next char — a valid match may overlap this one
+      regex.lastIndex = start + 1;
+    } else {
+      found.push({ start, end });
+    }
+    if (guarded) {
+      if (found.length >= REGEX_MAX_MATCHES) break;
+      if (Date.now() - startedAt > budgetMs) {
+        throw new Error(`Search pattern "${regex.source}" is too slow on this document`);
+      }
+    }
+  }
+  return found;
+}
+
+export interface FuzzyMatch {
   start: number;
   end: number;
   distance: number;
 }
 
+/** Bits per bit-vector block (JS bitwise ops are 32-bit). */
+const BLOCK_BITS = 32;
+
+/** Upper bound on traceback window width, in text characters. */
+const TRACEBACK_MAX_COLUMNS = 1024;
+
 /**
  * Semi-global Levenshtein alignment for approximate substring matching.
  *
  * Finds all positions in `text` where a substring has edit distance ≤ maxErrors
- * from `query`. Uses O(m) space with single-column DP.
+ * from `query`. Semi-global: a match can start anywhere in text, but the full
+ * query must be covered.
  *
- * Semi-global: first DP column = 0 (match can start anywhere in text),
- * but the full query must be covered.
+ * End positions come from Myers' bit-parallel algorithm (Hyyrö's multi-block
+ * variant for queries over 32 chars): O(n·⌈m/32⌉) time, O(m) memory.
+ * Start positions come from a DP traceback over a small window before each
+ * end. An alignment with ≤ maxErrors edits spans at most m + maxErrors chars,
+ * so cells further left cannot change the path: the result is the same as a
+ * traceback over the full n×m matrix.
  */
-function fuzzySearchText(
+export function fuzzySearchText(
   text: string,
   query: string,
-  maxErrors: number
+  maxErrors: number,
+  accept?: MatchFilter
 ): FuzzyMatch[] {
   const n = text.length;
   const m = query.length;
   if (m === 0) return [];
   if (n === 0) return [];
 
-  // DP: prev[j] = min edit distance to match query[0..j-1] ending at current text pos
-  // Semi-global: prev[0] = 0 for all text positions (free start)
-  let prev = new Uint32Array(m + 1);
-  for (let j = 0; j <= m; j++) prev[j] = j;
-
-  // Store full DP matrix columns for traceback
-  const columns: Uint32Array[] = [prev.slice()];
-
-  // Track match end positions
-  const endPositions: Array<{ col: number; distance: number }> = [];
-
-  for (let i = 1; i <= n; i++) {
-    const curr = new Uint32Array(m + 1);
-    curr[0] = 0; // semi-global: free start position
-    for (let j = 1; j <= m; j++) {
-      const cost = text[i - 1] === query[j - 1] ? 0 : 1;
-      curr[j] = Math.min(
-        prev[j] + 1,      // deletion
-        curr[j - 1] + 1,  // insertion
-        prev[j - 1] + cost // substitution
-      );
-    }
-    columns.push(curr.slice());
-
-    if (curr[m] <= maxErrors) {
-      endPositions.push({ col: i, distance: curr[m] });
-    }
-    prev = curr;
-  }
-
-  if (endPositions.length === 0) return [];
+  const ends = findMatchEnds(text, query, maxErrors);
+  if (ends.length === 0) return [];
 
-  // Traceback to find start position for each match end
   const rawMatches: FuzzyMatch[] = [];
-  for (const { col: endCol, distance } of endPositions) {
-    // Trace back through the DP matrix to find where the match starts
-    let j = m;
-    let i = endCol;
-    while (j > 0 && i > 0) {
-      const c = columns[i];
-      const p = columns[i - 1];
-      const cost = text[i - 1] === query[j - 1] ? 0 : 1;
-      if (c[j] === p[j - 1] + cost) {
-        // substitution or match — move diagonally
-        i--;
-        j--;
-      } else if (c[j] === p[j] + 1) {
-        // deletion from text — move left in text
-        i--;
-      } else {
-        // insertion into text — move up in query
-        j--;
+  const reach = m + 2 * maxErrors + 2;
+  const maxColumns = Math.max(TRACEBACK_MAX_COLUMNS, 2 * reach);
+
+  // Consecutive ends share one window, as long as it stays small
+  let first = 0;
+  while (first < ends.length) {
+    const from = Math.max(0, ends[first].col - reach);
+    let last = first;
+    while (last + 1 < ends.length && ends[last + 1].col - from <= maxColumns) last++;
+
+    const window = new TracebackWindow(text, query, from, ends[last].col);
+    for (let k = first; k <= last; k++) {
+      const { col: endCol, distance } = ends[k];
+      const start = window.traceStart(endCol);
+      if (!accept || accept(start, endCol)) {
+        rawMatches.push({ start, end: endCol, distance });
       }
     }
-    rawMatches.push({ start: i, end: endCol, distance });
+    first = last + 1;
   }
 
-  // Merge overlapping matches, keeping the one with lowest distance
+  // Merge overlapping matches, keeping the one with lowest distance (the
+  // longest on a tie, so "recieve" is not cut to "recie")
   if (rawMatches.length === 0) return [];
-  rawMatches.sort((a, b) => a.start - b.start || a.distance - b.distance);
+  rawMatches.sort((a, b) => a.start - b.start || a.distance - b.distance || b.end - a.end);
 
   const merged: FuzzyMatch[] = [rawMatches[0]];
   for (let i = 1; i < rawMatches.length; i++) {
@@ -167,17 +347,197 @@ function fuzzySearchText(
   return merged;
 }
 
+/**
+ * Text positions (1-based column after the last matched char) where the
+ * edit distance of `query` against a suffix of text ending there is
+ * ≤ maxErrors. Myers/Hyyrö bit-vector DP, one column per text char.
+ */
+function findMatchEnds(
+  text: string,
+  query: string,
+  maxErrors: number
+): Array<{ col: number; distance: number }> {
+  const m = query.length;
+  const blocks = Math.ceil(m / BLOCK_BITS);
+  const lastBit = 1 << ((m - 1) % BLOCK_BITS);
+
+  // Peq[c]: per block, bit j set where query[j] === c
+  const peq = new Map<number, Int32Array>();
+  for (let j = 0; j < m; j++) {
+    const c = query.charCodeAt(j);
+    let eq = peq.get(c);
+    if (!eq) peq.set(c, (eq = new Int32Array(blocks)));
+    eq[(j / BLOCK_BITS) | 0] |= 1 << j % BLOCK_BITS;
+  }
+  const noMatch = new Int32Array(blocks);
+
+  // Vertical deltas of the first column (0, 1, …, m): all +1
+  const pv = new Int32Array(blocks).fill(-1);
+  const mv = new Int32Array(blocks);
+  let score = m;
+
+  const ends: Array<{ col: number; distance: number }> = [];
+  for (let i = 0; i < text.length; i++) {
+    const eqs = peq.get(text.charCodeAt(i)) ?? noMatch;
+    // Row 0 is all zeros (free start): no horizontal delta into block 0
+    let hin = 0;
+    for (let b = 0; b < blocks; b++) {
+      const highBit = b === blocks - 1 ? lastBit : 1 << 31;
+      let eq = eqs[b];
+      const pvb = pv[b];
+      const mvb = mv[b];
+      const hinNeg = hin < 0 ? 1 : 0;
+      const hinPos = hin > 0 ? 1 : 0;
+
+      const xv = eq | mvb;
+      eq |= hinNeg;
+      const xh = (((eq & pvb) + pvb) ^ pvb) | eq;
+      let ph = mvb | ~(xh | pvb);
+      let mh = pvb & xh;
+
+      hin = ph & highBit ? 1 : mh & highBit ? -1 : 0;
+
+      ph = (ph << 1) | hinPos;
+      mh = (mh << 1) | hinNeg;
+      pv[b] = mh | ~(xv | ph);
+      mv[b] = ph & xv;
+    }
+    score += hin;
+    if (score <= maxErrors) ends.push({ col: i + 1, distance: score });
+  }
+  return ends;
+}
+
+/**
+ * Full DP matrix over text columns [from, to], used to trace match starts.
+ * Column `from` is the initial column (0, 1, …, m), as if text began there.
+ */
+class TracebackWindow {
+  private readonly rows: number;
+  private readonly cells: Uint32Array;
+
+  constructor(
+    private readonly text: string,
+    private readonly query: string,
+    private readonly from: number,
+    to: number
+  ) {
+    const m = query.length;
+    this.rows = m + 1;
+    this.cells = new Uint32Array((to - from + 1) * this.rows);
+
+    for (let j = 0; j <= m; j++) this.cells[j] = j;
+    for (let i = from + 1; i <= to; i++) {
+      const curr = (i - from) * this.rows;
+      const prev = curr - this.rows;
+      const c = text.charCodeAt(i - 1);
+      // cells[curr] = 0: semi-global, free start position
+      for (let j = 1; j <= m; j++) {
+        const cost = c === query.charCodeAt(j - 1) ? 0 : 1;
+        this.cells[curr + j] = Math.min(
+          this.cells[prev + j] + 1,       // deletion
+          this.cells[curr + j - 1] + 1,   // insertion
+          this.cells[prev + j - 1] + cost // substitution
+        );
+      }
+    }
+  }
+
+  /** Trace back from (m, endCol) to the column where the match starts. */
+  traceStart(endCol: number): number {
+    const { text, query, rows, cells, from } = this;
+    let j = query.length;
+    let i = endCol;
+    while (j > 0 && i > from) {
+      const c = (i - from) * rows;
+      const p = c - rows;
+      const cost = text[i - 1] === query[j - 1] ? 0 : 1;
+      if (cells[c + j] === cells[p + j - 1] + cost) {
+        // substitution or match — move diagonally
+        i--;
+        j--;
+      } else if (cells[c + j] === cells[p + j] + 1) {
+        // deletion from text — move left in text
+        i--;
+      } else {
+        // insertion into text — move up in query
+        j--;
+      }
+    }
+    return i;
+  }
+}
+
 /**
  * Build fullText and charMap from spans.
+ *
+ * Text is folded per glyph — a base char plus its combining marks — so the
+ * charMap stays many-to-one: every fullText char points back to the exact
+ * source chars it came from, whatever normalization did to them.
+ *
+ * Lines are reconstructed from `hasEOL`:
+ * - A synthetic space (empty source range) separates lines: "end" / "of" → "end of"
+ * - A hyphen at a line end before a lowercase letter is dropped: "agree-" / "ment" → "agreement",
+ *   other line-end hyphens are kept without a space: "well-" / "Known" → "well-Known"
+ * - Soft hyphens (U+00AD) are dropped everywhere
+ * Dropped chars are folded into the previous char's source range so they stay highlighted.
  */
-function buildTextAndCharMap(spans: SpanData[]) {
+function buildTextAndCharMap(spans: TextSpan[], fold: TextFold) {
   let fullText = '';
   const charMap: CharMapEntry[] = [];
+  let lineBreak = false;
+
+  /** Extend the previous char's source range over a dropped glyph. */
+  const absorb = (si: number, end: number) => {
+    const prev = charMap[charMap.length - 1];
+    if (prev && prev.spanIdx === si) prev.charEnd = end;
+  };
+
   spans.forEach((s, si) => {
-    for (let ci = 0; ci < s.text.length; ci++) {
-      charMap.push({ spanIdx: si, charIdx: ci });
-      fullText += s.text[ci];
+    const text = s.text;
+    let ci = 0;
+    while (ci < text.length) {
+      const code = text.charCodeAt(ci);
+      let cj = ci + 1;
+      if (code >= 0xd800 && code <= 0xdbff && cj < text.length) cj++; // surrogate pair
+      while (cj < text.length && text.charCodeAt(cj) >= 0x300 && COMBINING_MARK.test(text[cj])) cj++;
+
+      // Plain ASCII needs no normalization
+      let folded = cj === ci + 1 && code < 0x80
+        ? (fold.lowerCase ? text[ci].toLowerCase() : text[ci])
+        : foldText(text.slice(ci, cj), fold);
+      if (folded === SOFT_HYPHEN) folded = '';
+
+      if (lineBreak && folded) {
+        lineBreak = false;
+        const prev = charMap[charMap.length - 1];
+        const last = fullText[fullText.length - 1];
+        if (HYPHENS.includes(last)) {
+          // Dehyphenate "agree-" / "ment"; keep the hyphen of "well-" / "Known" but join the lines
+          if (/\p{L}/u.test(fullText[fullText.length - 2] ?? '') && /\p{Ll}/u.test(folded[0])) {
+            fullText = fullText.slice(0, -1);
+            charMap.pop();
+            absorb(prev.spanIdx, prev.charEnd);
+          }
+        } else if (!/\s/.test(last) && !/\s/.test(folded[0])) {
+          fullText += ' ';
+          charMap.push({ spanIdx: prev.spanIdx, charIdx: prev.charEnd, charEnd: prev.charEnd });
+        }
+      }
+
+      if (folded.length === 0) {
+        // Glyph folded away (soft hyphen, lone combining mark): attach it to the previous char
+        absorb(si, cj);
+      }
+      for (const c of folded) {
+        for (let u = 0; u < c.length; u++) {
+          charMap.push({ spanIdx: si, charIdx: ci, charEnd: cj });
+        }
+        fullText += c;
+      }
+      ci = cj;
     }
+    if (s.hasEOL && fullText.length > 0) lineBreak = true;
   });
   return { fullText, charMap };
 }
@@ -193,75 +553,207 @@ function mapToSpanRanges(
   const range: MatchRange[] = [];
   for (let k = start; k < end; k++) {
     const cm = charMap[k];
+    if (cm.charEnd === cm.charIdx) continue; // synthetic line-break space
     const last = range[range.length - 1];
-    if (last && last.spanIdx === cm.spanIdx && last.end === cm.charIdx) {
-      last.end = cm.charIdx + 1;
+    if (last && last.spanIdx === cm.spanIdx && cm.charIdx <= last.end) {
+      last.end = Math.max(last.end, cm.charEnd);
     } else {
-      range.push({ spanIdx: cm.spanIdx, start: cm.charIdx, end: cm.charIdx + 1 });
+      range.push({ spanIdx: cm.spanIdx, start: cm.charIdx, end: cm.charEnd });
     }
   }
   return range;
 }
 
+/**
+ * Build the match filter for `wholeWord` / `wordPrefix`, or undefined if neither is set.
+ *
+ * A position is a word boundary when the chars on either side differ in
+ * "wordness". Line ends count too, since they hold a synthetic space.
+ */
+function buildWordFilter(fullText: string, options: SearchOptions): MatchFilter | undefined {
+  if (!options.wholeWord && !options.wordPrefix) return undefined;
+
+  const isBoundary = (pos: number): boolean => {
+    if (pos <= 0 || pos >= fullText.length) return true;
+    return WORD_CHAR.test(fullText[pos - 1]) !== WORD_CHAR.test(fullText[pos]);
+  };
+
+  return options.wholeWord
+    ? (start, end) => isBoundary(start) && isBoundary(end)
+    : (start) => isBoundary(start);
+}
+
+/**
+ * Check that a query can be run with the given options.
+ * Throws an Error for an invalid or unsafe `regex` pattern.
+ */
+export function validateQuery(query: string, options: SearchOptions = {}): void {
+  const trimmed = query.trim();
+  if (trimmed && options.regex) buildUserRegex(trimmed, options);
+}
+
 /**
  * Search for text across page spans using charMap-based matching.
  *
  * Algorithm:
- * 1. Concatenate all span texts into one string (fullText)
- * 2. Build charMap: charMap[i] = { spanIdx, charIdx } for each char in fullText
+ * 1. Concatenate all span texts into one string (fullText), normalized per glyph
+ * 2. Build charMap: charMap[i] = { spanIdx, charIdx, charEnd } for each char in fullText
  * 3. Run regex or fuzzy search on fullText
  * 4. Map each match back to span ranges via charMap
+ *
+ * Throws an Error for an invalid `regex` pattern.
  */
 export function searchPage(
-  spans: SpanData[],
+  spans: TextSpan[],
   query: string,
   options: SearchOptions = {}
 ): MatchRange[][] {
-  const trimmed = query.trim();
-  if (!trimmed) return [];
+  return findMatches(spans, query, options, 1).map((m) => m.ranges);
+}
 
-  if (options.fuzzy) {
-    return fuzzySearchPage(spans, trimmed, options);
-  }
+/**
+ * Same as searchPage, with the edit distance of each match.
+ *
+ * Throws an Error for an invalid `regex` pattern.
+ */
+export function searchPageMatches(
+  spans: TextSpan[],
+  query: string,
+  options: SearchOptions = {}
+): PageMatch[] {
+  return findMatches(spans, query, options, 1);
+}
+
+/**
+ * Search several pages as one continuous text, so a match can run from the
+ * bottom of one page onto the next (pages are joined like lines: with a space,
+ * or dehyphenated). Each match is returned as per-page segments in page order.
+ *
+ * Throws an Error for an invalid `regex` pattern.
+ */
+export function searchDocument(
+  pages: TextSpan[][],
+  query: string,
+  options: SearchOptions = {}
+): DocumentMatch[] {
+  const { spans, pageStarts } = joinPages(pages);
+  return findMatches(spans, query, options, pages.length).map(({ ranges, distance }) => ({
+    segments: splitByPage(ranges, pageStarts),
+    distance,
+  }));
+}
 
-  const regex = buildFlexibleRegex(query, options);
-  if (!regex) return [];
+/** Searchable text of several pages, with the way back to page spans. */
+export interface DocumentText {
+  /** Pages joined like lines (see `searchDocument`), folded per the options. */
+  text: string;
+  /** Per-page span ranges of text[start, end). */
+  toSegments(start: number, end: number): PageMatchSegment[];
+  /** Fold a string (e.g. a query) the same way as `text`. */
+  fold(value: string): string;
+}
 
-  const { fullText, charMap } = buildTextAndCharMap(spans);
+/**
+ * The text `searchDocument` searches, for matching done outside the engine
+ * (e.g. `locatePassage`). Lowercased unless `caseSensitive`.
+ */
+export function buildDocumentText(pages: TextSpan[][], options: SearchOptions = {}): DocumentText {
+  const fold = getFold(options, !(options.caseSensitive ?? false));
+  const { spans, pageStarts } = joinPages(pages);
+  const { fullText, charMap } = buildTextAndCharMap(spans, fold);
+  return {
+    text: fullText,
+    toSegments: (start, end) => splitByPage(mapToSpanRanges(start, end, charMap), pageStarts),
+    fold: (value) => foldText(value, fold),
+  };
+}
 
-  // Find all regex matches
-  const allMatchRanges: MatchRange[][] = [];
-  let m: RegExpExecArray | null;
-  regex.lastIndex = 0;
+/** Spans of all pages in one list; a page always ends a line. */
+function joinPages(pages: TextSpan[][]): { spans: TextSpan[]; pageStarts: number[] } {
+  const spans: TextSpan[] = [];
+  const pageStarts: number[] = [];
+  pages.forEach((pageSpans) => {
+    pageStarts.push(spans.length);
+    pageSpans.forEach((s, i) => {
+      spans.push(i === pageSpans.length - 1 && !s.hasEOL ? { text: s.text, hasEOL: true } : s);
+    });
+  });
+  return { spans, pageStarts };
+}
 
-  while ((m = regex.exec(fullText)) !== null) {
-    allMatchRanges.push(mapToSpanRanges(m.index, m.index + m[0].length, charMap));
-    if (m[0].length === 0) regex.lastIndex++;
+/** Split ranges over joined spans into per-page segments in page order. */
+function splitByPage(ranges: MatchRange[], pageStarts: number[]): PageMatchSegment[] {
+  const segments: PageMatchSegment[] = [];
+  let pageIndex = 0;
+  for (const r of ranges) {
+    while (pageIndex + 1 < pageStarts.length && pageStarts[pageIndex + 1] <= r.spanIdx) pageIndex++;
+    let seg = segments[segments.length - 1];
+    if (!seg || seg.pageIndex !== pageIndex) {
+      seg = { pageIndex, ranges: [] };
+      segments.push(seg);
+    }
+    seg.ranges.push({ ...r, spanIdx: r.spanIdx - pageStarts[pageIndex] });
   }
+  return segments;
+}
 
-  return allMatchRanges;
+/**
+ * Shared implementation of searchPage/searchDocument.
+ * `pageCount` scales the regex time budget for multi-page text.
+ * Matches that cover only synthetic line-break spaces are dropped.
+ */
+function findMatches(
+  spans: TextSpan[],
+  query: string,
+  options: SearchOptions,
+  pageCount: number
+): PageMatch[] {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  let matches: PageMatch[];
+  if (options.regex) {
+    const regex = buildUserRegex(trimmed, options);
+    const { fullText, charMap } = buildTextAndCharMap(spans, getFold(options));
+    const accept = buildWordFilter(fullText, options);
+    matches = execAll(regex, fullText, accept, REGEX_TIME_BUDGET_MS * Math.max(pageCount, 1))
+      .map((m) => ({ ranges: mapToSpanRanges(m.start, m.end, charMap), distance: 0 }));
+  } else if (options.fuzzy) {
+    matches = fuzzySearchPage(spans, trimmed, options);
+  } else {
+    const regex = buildFlexibleRegex(query, options);
+    if (!regex) return [];
+
+    const { fullText, charMap } = buildTextAndCharMap(spans, getFold(options));
+    const accept = buildWordFilter(fullText, options);
+    matches = execAll(regex, fullText, accept)
+      .map((m) => ({ ranges: mapToSpanRanges(m.start, m.end, charMap), distance: 0 }));
+  }
+  return matches.filter((m) => m.ranges.length > 0);
 }
 
 function fuzzySearchPage(
-  spans: SpanData[],
+  spans: TextSpan[],
   query: string,
   options: SearchOptions
-): MatchRange[][] {
-  const { fullText, charMap } = buildTextAndCharMap(spans);
+): PageMatch[] {
+  // Case is folded per glyph so the charMap stays aligned
+  const fold = getFold(options, !(options.caseSensitive ?? false));
+  const { fullText, charMap } = buildTextAndCharMap(spans, fold);
   if (fullText.length === 0) return [];
 
-  const isCaseSensitive = options.caseSensitive ?? false;
   const threshold = options.fuzzyThreshold ?? 0.6;
 
-  const searchText = isCaseSensitive ? fullText : fullText.toLowerCase();
-  const searchQuery = isCaseSensitive ? query : query.toLowerCase();
-
   // Strip whitespace from query for matching
-  const strippedQuery = searchQuery.replace(/\s+/g, '');
+  const strippedQuery = foldText(query, fold).replace(/\s+/g, '');
   if (strippedQuery.length === 0) return [];
 
   const maxErrors = Math.floor(strippedQuery.length * (1 - threshold));
-  const matches = fuzzySearchText(searchText, strippedQuery, maxErrors);
+  const accept = buildWordFilter(fullText, options);
+  const matches = fuzzySearchText(fullText, strippedQuery, maxErrors, accept);
 
-  return matches.map((m) => mapToSpanRanges(m.start, m.end, charMap));
+  return matches.map((m) => ({
+    ranges: mapToSpanRanges(m.start, m.end, charMap),
+    distance: m.distance,
+  }));
 }
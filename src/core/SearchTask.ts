@@ -0,0 +1,139 @@
+import { searchPageMatches, searchDocument } from './SearchEngine';
+import { searchBooleanPage } from './BooleanQuery';
+import { locatePassage } from './PassageLocator';
+import type { DocumentMatch } from './SearchEngine';
+import type { SearchOptions, SearchProgress, TextSpan } from '../types';
+
+/** One query to run over the document. */
+export interface SearchTask {
+  query: string;
+  options: SearchOptions;
+}
+
+/** Matches of one task, or the error that stopped it (e.g. a slow regex). */
+export interface SearchTaskResult {
+  matches: DocumentMatch[];
+  error?: Error;
+}
+
+export interface RunSearchOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: SearchProgress) => void;
+}
+
+/** Main-thread time slice (ms) before yielding to the event loop. */
+const SLICE_MS = 12;
+
+/** The DOMException fetch() rejects with when aborted. */
+export function createAbortError(): Error {
+  return new DOMException('The search was aborted', 'AbortError');
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof Error && err.name === 'AbortError';
+}
+
+/** Let the browser handle input and paint before continuing. */
+export function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/**
+ * Run one task, yielding after each page searched (cross-page and passage
+ * tasks are searched in one step; boolean queries are always per page).
+ * Returns matches in page order. `null` pages have no text yet and are skipped.
+ */
+function* taskSteps(
+  pages: Array<TextSpan[] | null>,
+  task: SearchTask
+): Generator<number, DocumentMatch[]> {
+  if (task.options.passage) {
+    const found = locatePassage(pages, task.query, task.options);
+    yield pages.length;
+    return found ? [{ segments: found.segments, distance: 0, score: found.score }] : [];
+  }
+
+  if (task.options.crossPage && !task.options.boolean) {
+    const matches = searchDocument(
+      pages.map((spans) => spans ?? []),
+      task.query,
+      task.options
+    );
+    yield pages.length;
+    return matches;
+  }
+
+  const searchOnePage = task.options.boolean ? searchBooleanPage : searchPageMatches;
+  const matches: DocumentMatch[] = [];
+  for (let i = 0; i < pages.length; i++) {
+    const spans = pages[i];
+    if (spans) {
+      searchOnePage(spans, task.query, task.options).forEach(({ ranges, distance }) =>
+        matches.push({ segments: [{ pageIndex: i, ranges }], distance })
+      );
+    }
+    yield 1;
+  }
+  return matches;
+}
+
+/** Drive a task to completion; an error is returned with the task, not thrown. */
+function* runTask(
+  pages: Array<TextSpan[] | null>,
+  task: SearchTask
+): Generator<number, SearchTaskResult> {
+  try {
+    return { matches: yield* taskSteps(pages, task) };
+  } catch (err) {
+    return { matches: [], error: err instanceof Error ? err : new Error(String(err)) };
+  }
+}
+
+/** Run tasks synchronously. Results are aligned with `tasks`. */
+export function runSearchTasks(
+  pages: Array<TextSpan[] | null>,
+  tasks: SearchTask[]
+): SearchTaskResult[] {
+  return tasks.map((task) => {
+    const steps = runTask(pages, task);
+    let step = steps.next();
+    while (!step.done) step = steps.next();
+    return step.value;
+  });
+}
+
+/**
+ * Run tasks in time slices, yielding to the event loop between pages so input
+ * stays responsive. Rejects with an AbortError when `signal` aborts.
+ */
+export async function runSearchTasksAsync(
+  pages: Array<TextSpan[] | null>,
+  tasks: SearchTask[],
+  { signal, onProgress }: RunSearchOptions = {}
+): Promise<SearchTaskResult[]> {
+  const progress: SearchProgress = { done: 0, total: tasks.length * pages.length };
+  const results: SearchTaskResult[] = [];
+  let sliceStart = Date.now();
+
+  for (const task of tasks) {
+    const steps = runTask(pages, task);
+    for (;;) {
+      if (signal?.aborted) throw createAbortError();
+      const step = steps.next();
+      if (step.done) {
+        results.push(step.value);
+        break;
+      }
+      progress.done += step.value;
+      if (Date.now() - sliceStart > SLICE_MS) {
+        onProgress?.({ ...progress });
+        await yieldToEventLoop();
+        sliceStart = Date.now();
+      }
+    }
+  }
+
+  if (signal?.aborted) throw createAbortError();
+  onProgress?.({ done: progress.total, total: progress.total });
+  return results;
+}
@@ -0,0 +1,115 @@
+import { createAbortError } from './SearchTask';
+import type { SearchTask, SearchTaskResult, RunSearchOptions } from './SearchTask';
+import type { SearchProgress, TextSpan } from '../types';
+
+/** Messages to the search worker. */
+export type SearchWorkerRequest =
+  | { type: 'pages'; pages: Array<TextSpan[] | null> }
+  | { type: 'search'; id: number; tasks: SearchTask[] }
+  | { type: 'cancel'; id: number };
+
+/** Messages from the search worker. */
+export type SearchWorkerResponse =
+  | { type: 'progress'; id: number; progress: SearchProgress }
+  | { type: 'result'; id: number; results: SearchTaskResult[] }
+  | { type: 'error'; id: number; message: string };
+
+interface PendingSearch {
+  resolve: (results: SearchTaskResult[]) => void;
+  reject: (err: Error) => void;
+  onProgress?: (progress: SearchProgress) => void;
+}
+
+/**
+ * Runs search tasks in a Web Worker (`search.worker.js`).
+ * The page text is posted once per version, not with every search.
+ */
+export class SearchWorkerClient {
+  private worker: Worker;
+  private nextId = 1;
+  private pending = new Map<number, PendingSearch>();
+  private pagesVersion = -1;
+
+  constructor(src: string | URL) {
+    this.worker = new Worker(src, { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => this.handleMessage(event.data);
+    this.worker.onerror = (event) => {
+      event.preventDefault();
+      this.failAll(new Error(event.message || 'Search worker failed to load'));
+    };
+  }
+
+  /**
+   * Search `pages` (sent only if `version` changed since the last search).
+   * Rejects with an AbortError when `signal` aborts.
+   */
+  search(
+    version: number,
+    getPages: () => Array<TextSpan[] | null>,
+    tasks: SearchTask[],
+    { signal, onProgress }: RunSearchOptions = {}
+  ): Promise<SearchTaskResult[]> {
+    if (signal?.aborted) return Promise.reject(createAbortError());
+
+    if (version !== this.pagesVersion) {
+      // Plain copies: rendered spans carry DOM elements, which cannot be cloned
+      const pages = getPages().map(
+        (spans) => spans && spans.map(({ text, hasEOL }) => ({ text, hasEOL }))
+      );
+      this.post({ type: 'pages', pages });
+      this.pagesVersion = version;
+    }
+
+    const id = this.nextId++;
+    return new Promise<SearchTaskResult[]>((resolve, reject) => {
+      const onAbort = () => {
+        this.pending.delete(id);
+        this.post({ type: 'cancel', id });
+        reject(createAbortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const done = () => signal?.removeEventListener('abort', onAbort);
+      this.pending.set(id, {
+        resolve: (results) => (done(), resolve(results)),
+        reject: (err) => (done(), reject(err)),
+        onProgress,
+      });
+      this.post({ type: 'search', id, tasks });
+    });
+  }
+
+  terminate(): void {
+    this.worker.terminate();
+    this.failAll(createAbortError());
+  }
+
+  private post(message: SearchWorkerRequest): void {
+    this.worker.postMessage(message);
+  }
+
+  private handleMessage(message: SearchWorkerResponse): void {
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+
+    switch (message.type) {
+      case 'progress':
+        pending.onProgress?.(message.progress);
+        break;
+      case 'result':
+        this.pending.delete(message.id);
+        pending.resolve(message.results);
+        break;
+      case 'error':
+        this.pending.delete(message.id);
+        pending.reject(new Error(message.message));
+        break;
+    }
+  }
+
+  private failAll(err: Error): void {
+    const pending = [...this.pending.values()];
+    this.pending.clear();
+    pending.forEach((p) => p.reject(err));
+  }
+}
@@ -0,0 +1,42 @@
+import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api';
+import type { PageText, TextSpan } from '../types';
+
+// pdfjs-dist types
+type PDFDocumentProxy = any;
+
+/**
+ * Whether a pdf.js text content item gets a span in the text layer.
+ * Shared by the renderer and the index so span indices line up.
+ */
+export function isTextLayerItem(item: TextItem | TextMarkedContent): item is TextItem {
+  return 'str' in item && (!!item.str || !!item.hasEOL);
+}
+
+/**
+ * Build a per-page text index from `page.getTextContent()` — no DOM involved.
+ *
+ * Each page's spans are index-aligned with the spans PDFRenderer creates
+ * for that page, so match ranges found in the index can be highlighted
+ * directly once the page is rendered.
+ */
+export async function buildTextIndex(pdfDoc: PDFDocumentProxy): Promise<PageText[]> {
+  const numPages: number = pdfDoc.numPages;
+
+  return Promise.all(
+    Array.from({ length: numPages }, async (_, i) => {
+      const page = await pdfDoc.getPage(i + 1);
+      const tc = await page.getTextContent();
+      const spans: TextSpan[] = [];
+      for (const item of tc.items) {
+        if (!isTextLayerItem(item)) continue;
+        spans.push({
+          text: item.str || '',
+          hasEOL: !!item.hasEOL,
+          transform: item.transform,
+          width: item.width,
+        });
+      }
+      return { spans };
+    })
+  );
+}
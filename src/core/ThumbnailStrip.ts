@@ -0,0 +1,251 @@
+import type { RenderTask } from 'pdfjs-dist';
+import { EventEmitter } from './EventEmitter';
+import { DEFAULT_CLASS_NAMES, DEFAULT_THUMBNAIL_WIDTH } from './constants';
+import type { ClassNames, ThumbnailStripEventMap } from '../types';
+
+// pdfjs-dist types
+type PDFDocumentProxy = any;
+type PDFPageProxy = any;
+
+export interface ThumbnailStripOptions {
+  /** Thumbnail width in CSS pixels. Defaults to 120. */
+  width?: number;
+  /** Distance in pixels around the visible area within which thumbnails are drawn. Defaults to 300. */
+  renderMargin?: number;
+  classNames?: Pick<ClassNames, 'thumbnails' | 'thumbnail' | 'thumbnailActive' | 'thumbnailCount'>;
+}
+
+interface Thumbnail {
+  page: PDFPageProxy;
+  element: HTMLElement;
+  canvas: HTMLCanvasElement;
+  count: HTMLElement;
+  renderTask: RenderTask | null;
+  drawn: boolean;
+}
+
+/**
+ * Page thumbnails with the number of search matches per page.
+ *
+ * Thumbnails are laid out at their final size right away and drawn at low
+ * resolution when they scroll near the visible area. Clicking one emits
+ * `select`; the current page is marked with the active class.
+ *
+ * Usage:
+ * ```js
+ * const thumbnails = new ThumbnailStrip(sidebar, { width: 100 });
+ * await thumbnails.setDocument(pdfDoc);
+ *
+ * thumbnails.on('select', ({ pageNumber }) => renderer.goToPage(pageNumber));
+ * renderer.on('pagechange', ({ pageNumber }) => thumbnails.setCurrentPage(pageNumber));
+ *
+ * search.search('invoice');
+ * thumbnails.setMatchCounts(search.getPageMatchCounts());
+ * ```
+ *
+ * With `PDFSearchViewer`, use `viewer.createThumbnails(sidebar)` instead,
+ * which keeps it in sync.
+ */
+export class ThumbnailStrip extends EventEmitter<ThumbnailStripEventMap> {
+  private container: HTMLElement;
+  private width: number;
+  private renderMargin: number;
+  private cls: Required<NonNullable<ThumbnailStripOptions['classNames']>>;
+  private pdfDoc: PDFDocumentProxy | null = null;
+  private thumbnails: Thumbnail[] = [];
+  private observer: IntersectionObserver | null = null;
+  private matchCounts: number[] = [];
+  private currentPage = 0;
+  /** Incremented per document so stale async work can bail out. */
+  private generation = 0;
+  private destroyed = false;
+
+  constructor(container: HTMLElement, options: ThumbnailStripOptions = {}) {
+    super();
+    this.container = container;
+    this.width = options.width ?? DEFAULT_THUMBNAIL_WIDTH;
+    this.renderMargin = options.renderMargin ?? 300;
+    const cls = { ...DEFAULT_CLASS_NAMES, ...options.classNames };
+    this.cls = {
+      thumbnails: cls.thumbnails,
+      thumbnail: cls.thumbnail,
+      thumbnailActive: cls.thumbnailActive,
+      thumbnailCount: cls.thumbnailCount,
+    };
+  }
+
+  /**
+   * Show the thumbnails of a document (pdf.js `PDFDocumentProxy`), or none
+   * with null. Setting the same document again does nothing.
+   */
+  async setDocument(pdfDoc: PDFDocumentProxy | null): Promise<void> {
+    if (this.destroyed || pdfDoc === this.pdfDoc) return;
+
+    const generation = ++this.generation;
+    this.clear();
+    this.pdfDoc = pdfDoc;
+    if (!pdfDoc) return;
+
+    const pages: PDFPageProxy[] = await Promise.all(
+      Array.from({ length: pdfDoc.numPages }, (_, i) => pdfDoc.getPage(i + 1))
+    );
+    if (generation !== this.generation) return;
+
+    this.container.classList.add(this.cls.thumbnails);
+    this.thumbnails = pages.map((page, i) => this.createThumbnail(page, i + 1));
+    this.thumbnails.forEach((t) => this.container.appendChild(t.element));
+    this.applyMatchCounts();
+    this.applyCurrentPage();
+    this.observeThumbnails();
+  }
+
+  /** Match counts per page (index 0 = page 1), e.g. `getPageMatchCounts()`. Pages with none show no badge. */
+  setMatchCounts(counts: number[]): void {
+    this.matchCounts = [...counts];
+    this.applyMatchCounts();
+  }
+
+  /** Mark a page (1-based) as the current one and scroll its thumbnail into view. 0 for none. */
+  setCurrentPage(pageNumber: number): void {
+    if (pageNumber === this.currentPage) return;
+    this.currentPage = pageNumber;
+    this.applyCurrentPage();
+  }
+
+  getCurrentPage(): number {
+    return this.currentPage;
+  }
+
+  /** Remove the thumbnails and stop rendering. The strip cannot be used afterwards. */
+  destroy(): void {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    this.generation++;
+    this.clear();
+    this.pdfDoc = null;
+    this.removeAllListeners();
+  }
+
+  private createThumbnail(page: PDFPageProxy, pageNumber: number): Thumbnail {
+    const vp = page.getViewport({ scale: 1 });
+    const height = Math.round((this.width * vp.height) / vp.width);
+
+    const element = document.createElement('div');
+    element.className = this.cls.thumbnail;
+    element.dataset.page = String(pageNumber);
+    element.tabIndex = 0;
+    element.setAttribute('role', 'button');
+    element.setAttribute('aria-label', `Page ${pageNumber}`);
+    element.style.position = 'relative';
+    element.addEventListener('click', () => this.emit('select', { pageNumber }));
+    element.addEventListener('keydown', (e) => {
+      if (e.key !== 'Enter' && e.key !== ' ') return;
+      e.preventDefault();
+      this.emit('select', { pageNumber });
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.style.width = this.width + 'px';
+    canvas.style.height = height + 'px';
+    canvas.style.display = 'block';
+    element.appendChild(canvas);
+
+    const count = document.createElement('span');
+    count.className = this.cls.thumbnailCount;
+    count.hidden = true;
+    element.appendChild(count);
+
+    return { page, element, canvas, count, renderTask: null, drawn: false };
+  }
+
+  /** Draw thumbnails as they approach the visible area (extended by `renderMargin`). */
+  private observeThumbnails(): void {
+    const root = this.isScrollable() ? this.container : null;
+
+    this.observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          if (!entry.isIntersecting) continue;
+          const pageIndex = Number((entry.target as HTMLElement).dataset.page) - 1;
+          this.observer?.unobserve(entry.target);
+          this.drawThumbnail(pageIndex);
+        }
+      },
+      { root, rootMargin: `${this.renderMargin}px` }
+    );
+
+    this.thumbnails.forEach((t) => this.observer!.observe(t.element));
+  }
+
+  private drawThumbnail(pageIndex: number): void {
+    const thumbnail = this.thumbnails[pageIndex];
+    if (!thumbnail || thumbnail.drawn) return;
+    thumbnail.drawn = true;
+
+    const { page, canvas } = thumbnail;
+    // Sharp on high-density screens, still far below the page resolution
+    const pixelRatio = Math.min(window.devicePixelRatio || 1, 2);
+    const scale = (this.width / page.getViewport({ scale: 1 }).width) * pixelRatio;
+    const vp = page.getViewport({ scale });
+    canvas.width = Math.floor(vp.width);
+    canvas.height = Math.floor(vp.height);
+
+    const renderTask: RenderTask = page.render({ canvasContext: canvas.getContext('2d')!, viewport: vp });
+    thumbnail.renderTask = renderTask;
+    renderTask.promise
+      .catch(() => {
+        // Cancelled by setDocument()/destroy(), or the document was destroyed
+        // before setDocument() — the thumbnail stays blank
+      })
+      .finally(() => {
+        if (thumbnail.renderTask === renderTask) thumbnail.renderTask = null;
+      });
+  }
+
+  private applyMatchCounts(): void {
+    this.thumbnails.forEach((t, i) => {
+      const count = this.matchCounts[i] ?? 0;
+      t.count.hidden = count === 0;
+      t.count.textContent = count > 0 ? String(count) : '';
+      t.count.title = count === 1 ? '1 match' : `${count} matches`;
+    });
+  }
+
+  private applyCurrentPage(): void {
+    this.thumbnails.forEach((t, i) => {
+      const active = i + 1 === this.currentPage;
+      t.element.classList.toggle(this.cls.thumbnailActive, active);
+      if (active) {
+        t.element.setAttribute('aria-current', 'page');
+        this.reveal(t.element);
+      } else {
+        t.element.removeAttribute('aria-current');
+      }
+    });
+  }
+
+  /** Scroll the strip (not the page around it) so the element is visible. */
+  private reveal(element: HTMLElement): void {
+    if (!this.isScrollable()) return;
+    const box = this.container.getBoundingClientRect();
+    const rect = element.getBoundingClientRect();
+    if (rect.top < box.top) this.container.scrollTop -= box.top - rect.top;
+    else if (rect.bottom > box.bottom) this.container.scrollTop += rect.bottom - box.bottom;
+    if (rect.left < box.left) this.container.scrollLeft -= box.left - rect.left;
+    else if (rect.right > box.right) this.container.scrollLeft += rect.right - box.right;
+  }
+
+  private isScrollable(): boolean {
+    const style = getComputedStyle(this.container);
+    return [style.overflowY, style.overflowX].some((o) => o === 'auto' || o === 'scroll');
+  }
+
+  private clear(): void {
+    this.observer?.disconnect();
+    this.observer = null;
+    this.thumbnails.forEach((t) => t.renderTask?.cancel());
+    this.thumbnails.forEach((t) => t.element.remove());
+    this.thumbnails = [];
+    this.container.classList.remove(this.cls.thumbnails);
+  }
+}
@@ -0,0 +1,165 @@
+import { MIN_SCALE, MAX_SCALE } from './constants';
+import type { ZoomAnchor } from '../types';
+
+/** What a zoom gesture drives (see `attachZoomGestures`). */
+export interface ZoomGestureHandlers {
+  /** Scale on screen when a gesture starts. */
+  getScale: () => number;
+  /** Each step of a gesture (at most once per frame), e.g. a CSS preview. */
+  preview: (scale: number, anchor: ZoomAnchor) => void;
+  /** The final scale, once the gesture has paused for `delay` ms. */
+  commit: (scale: number, anchor: ZoomAnchor) => void;
+}
+
+export interface ZoomGestureOptions {
+  /** Defaults to MIN_SCALE. */
+  minScale?: number;
+  /** Defaults to MAX_SCALE. */
+  maxScale?: number;
+  /** Pause (ms) after which a gesture is committed. Defaults to 200. */
+  delay?: number;
+}
+
+/** Safari's non-standard `gesturestart`/`gesturechange` event (not in the DOM typings). */
+interface GestureEvent extends UIEvent {
+  /** Distance between the fingers relative to the start of the gesture. */
+  readonly scale: number;
+  readonly clientX: number;
+  readonly clientY: number;
+}
+
+/** Zoom factor per wheel pixel: one mouse wheel notch (100px) is about ×0.82 / ×1.22. */
+const WHEEL_ZOOM_SPEED = 0.002;
+
+/** Wheel delta in pixels, whatever the event's `deltaMode`. */
+function wheelPixels(e: WheelEvent): number {
+  if (e.deltaMode === 1) return e.deltaY * 16; // Lines
+  if (e.deltaMode === 2) return e.deltaY * 400; // Pages
+  return e.deltaY;
+}
+
+function touchDistance(touches: TouchList): number {
+  return Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+}
+
+function touchCenter(touches: TouchList): ZoomAnchor {
+  return {
+    x: (touches[0].clientX + touches[1].clientX) / 2,
+    y: (touches[0].clientY + touches[1].clientY) / 2,
+  };
+}
+
+/**
+ * Zoom gestures on an element: Ctrl/⌘ + wheel, trackpad pinch (Ctrl + wheel
+ * in most browsers, gesture events in Safari) and two-finger touch pinch.
+ * The point under the cursor or between the fingers is the anchor. Steps are
+ * previewed once per frame and the result is committed when the gesture
+ * pauses. Returns a function that removes the listeners.
+ *
+ * ```js
+ * const detach = attachZoomGestures(container, {
+ *   getScale: () => renderer.getEffectiveScale(),
+ *   preview: (scale, anchor) => { renderer.setScale(scale); renderer.previewScale(anchor); },
+ *   commit: async () => search.setPages(await renderer.renderAllPages()),
+ * });
+ * ```
+ */
+export function attachZoomGestures(
+  target: HTMLElement,
+  handlers: ZoomGestureHandlers,
+  options: ZoomGestureOptions = {}
+): () => void {
+  const minScale = options.minScale ?? MIN_SCALE;
+  const maxScale = options.maxScale ?? MAX_SCALE;
+  const delay = options.delay ?? 200;
+
+  // Scale of the gesture in progress, null between gestures
+  let scale: number | null = null;
+  let anchor: ZoomAnchor = { x: 0, y: 0 };
+  let frame: number | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let pinch: { distance: number; scale: number } | null = null;
+  let gestureStartScale = 1;
+
+  const currentScale = () => scale ?? handlers.getScale();
+
+  const commit = () => {
+    timer = null;
+    if (frame !== null) cancelAnimationFrame(frame);
+    frame = null;
+    if (scale === null) return;
+    const final = scale;
+    scale = null;
+    handlers.commit(final, anchor);
+  };
+
+  const update = (next: number, point: ZoomAnchor) => {
+    scale = Math.min(maxScale, Math.max(minScale, next));
+    anchor = point;
+    if (frame === null) {
+      frame = requestAnimationFrame(() => {
+        frame = null;
+        if (scale !== null) handlers.preview(scale, anchor);
+      });
+    }
+    if (timer !== null) clearTimeout(timer);
+    timer = setTimeout(commit, delay);
+  };
+
+  const onWheel = (e: WheelEvent) => {
+    if (!e.ctrlKey && !e.metaKey) return;
+    // Zoom the pages, not the browser page
+    e.preventDefault();
+    update(currentScale() * Math.exp(-wheelPixels(e) * WHEEL_ZOOM_SPEED), { x: e.clientX, y: e.clientY });
+  };
+
+  const onTouchStart = (e: TouchEvent) => {
+    if (e.touches.length === 2) pinch = { distance: touchDistance(e.touches), scale: currentScale() };
+  };
+
+  const onTouchMove = (e: TouchEvent) => {
+    if (!pinch || e.touches.length !== 2) return;
+    e.preventDefault();
+    update((pinch.scale * touchDistance(e.touches)) / pinch.distance, touchCenter(e.touches));
+  };
+
+  const onTouchEnd = (e: TouchEvent) => {
+    if (e.touches.length < 2) pinch = null;
+  };
+
+  // Safari (non-standard); on iOS a touch pinch also fires these, handled above
+  const onGestureStart = (e: Event) => {
+    e.preventDefault();
+    gestureStartScale = currentScale();
+  };
+
+  const onGestureChange = (e: Event) => {
+    e.preventDefault();
+    if (pinch) return;
+    const { scale: gestureScale, clientX, clientY } = e as GestureEvent;
+    update(gestureStartScale * gestureScale, { x: clientX, y: clientY });
+  };
+
+  target.addEventListener('wheel', onWheel, { passive: false });
+  target.addEventListener('touchstart', onTouchStart, { passive: true });
+  target.addEventListener('touchmove', onTouchMove, { passive: false });
+  target.addEventListener('touchend', onTouchEnd);
+  target.addEventListener('touchcancel', onTouchEnd);
+  target.addEventListener('gesturestart', onGestureStart);
+  target.addEventListener('gesturechange', onGestureChange);
+
+  return () => {
+    target.removeEventListener('wheel', onWheel);
+    target.removeEventListener('touchstart', onTouchStart);
+    target.removeEventListener('touchmove', onTouchMove);
+    target.removeEventListener('touchend', onTouchEnd);
+    target.removeEventListener('touchcancel', onTouchEnd);
+    target.removeEventListener('gesturestart', onGestureStart);
+    target.removeEventListener('gesturechange', onGestureChange);
+    if (frame !== null) cancelAnimationFrame(frame);
+    if (timer !== null) clearTimeout(timer);
+    frame = null;
+    timer = null;
+    scale = null;
+  };
+}
@@ -1,4 +1,4 @@
-import type { ClassNames } from '../types';
+import type { ClassNames, ZoomMode } from '../types';
 
 export const DEFAULT_CLASS_NAMES: Required<ClassNames> = {
   container: 'psh-container',
@@ -8,14 +8,49 @@ export const DEFAULT_CLASS_NAMES: Required<ClassNames> = {
   pageLabel: 'psh-page-label',
   highlight: 'highlight',
   activeHighlight: 'active',
+  highlightLayer: 'psh-highlight-layer',
+  annotationLayer: 'psh-annotation-layer',
+  annotation: 'psh-annotation',
+  linkLayer: 'psh-link-layer',
+  thumbnails: 'psh-thumbnails',
+  thumbnail: 'psh-thumbnail',
+  thumbnailActive: 'psh-thumbnail-active',
+  thumbnailCount: 'psh-thumbnail-count',
 };
 
-export const DEFAULT_SCALE = 'auto' as number | 'auto';
+export const DEFAULT_SCALE = 'auto' as number | ZoomMode;
 export const DEFAULT_PAGE_GAP = 20;
 
+/** Pre-render distance (px) around the viewport for virtualized rendering. */
+export const DEFAULT_RENDER_MARGIN = 1000;
+
+/** Chars of context on each side of a match in its snippet. */
+export const DEFAULT_SNIPPET_LENGTH = 40;
+
+/** Color of annotations created without one. */
+export const DEFAULT_ANNOTATION_COLOR = 'rgba(255, 200, 0, 0.4)';
+
+/** Color of exported highlights without one (the default highlight style). */
+export const DEFAULT_HIGHLIGHT_COLOR = 'rgba(255, 230, 0, 0.45)';
+
+/** Width (px) of page thumbnails. */
+export const DEFAULT_THUMBNAIL_WIDTH = 120;
+
 export const ZOOM_STEP = 0.25;
 export const MIN_SCALE = 0.25;
 export const MAX_SCALE = 5;
 
-/** Number of predefined multi-context highlight colors (cycles with modulo). */
-export const MULTI_CONTEXT_COLOR_COUNT = 8;
+/** Colors of the predefined multi-context classes `highlight-0` … `highlight-7` (see CSS). */
+export const MULTI_CONTEXT_COLORS = [
+  'rgba(255, 230, 0, 0.45)',   // Yellow
+  'rgba(0, 200, 255, 0.40)',   // Cyan
+  'rgba(0, 230, 120, 0.40)',   // Green
+  'rgba(255, 150, 0, 0.45)',   // Orange
+  'rgba(190, 100, 255, 0.40)', // Purple
+  'rgba(255, 100, 150, 0.40)', // Pink
+  'rgba(130, 190, 255, 0.40)', // Light Blue
+  'rgba(200, 220, 100, 0.45)', // Lime
+];
+
+/** Number of predefined multi-context highlight classes. Later contexts get generated colors. */
+export const MULTI_CONTEXT_COLOR_COUNT = MULTI_CONTEXT_COLORS.length;
@@ -8,20 +8,59 @@ export type { SearchControllerOptions } from './SearchController';
 
 // Individual modules — for full control
 export { PDFRenderer } from './PDFRenderer';
-export { searchPage } from './SearchEngine';
-export type { MatchRange } from './SearchEngine';
+export { buildTextIndex } from './TextIndex';
+export { getDocumentOutline, resolveDestination } from './PDFLinks';
+export type { ResolvedDestination } from './PDFLinks';
+export { searchPage, searchPageMatches, searchDocument, validateQuery } from './SearchEngine';
+export type { MatchRange, PageMatch, PageMatchSegment, DocumentMatch } from './SearchEngine';
+export { getPageText } from './MatchDetails';
+export { getMatchGeometry } from './MatchGeometry';
+export { parseBooleanQuery, searchBooleanPage } from './BooleanQuery';
+export { locatePassage } from './PassageLocator';
+export type { PassageMatch } from './PassageLocator';
+export type { QueryNode } from './BooleanQuery';
 export { HighlightManager } from './HighlightManager';
+export type { HighlightManagerOptions } from './HighlightManager';
+export { exportAnnotatedPDF } from './PDFExport';
+export { AnnotationManager } from './AnnotationManager';
+export type { AnnotationManagerOptions, AnnotationProps } from './AnnotationManager';
+export { attachZoomGestures } from './ZoomGestures';
+export type { ZoomGestureHandlers, ZoomGestureOptions } from './ZoomGestures';
+export { ThumbnailStrip } from './ThumbnailStrip';
+export type { ThumbnailStripOptions } from './ThumbnailStrip';
 export { EventEmitter } from './EventEmitter';
-export { DEFAULT_CLASS_NAMES, DEFAULT_SCALE, DEFAULT_PAGE_GAP, ZOOM_STEP, MIN_SCALE, MAX_SCALE, MULTI_CONTEXT_COLOR_COUNT } from './constants';
+export { DEFAULT_CLASS_NAMES, DEFAULT_SCALE, DEFAULT_PAGE_GAP, DEFAULT_RENDER_MARGIN, DEFAULT_SNIPPET_LENGTH, DEFAULT_ANNOTATION_COLOR, DEFAULT_HIGHLIGHT_COLOR, DEFAULT_THUMBNAIL_WIDTH, ZOOM_STEP, MIN_SCALE, MAX_SCALE, MULTI_CONTEXT_COLORS, MULTI_CONTEXT_COLOR_COUNT } from './constants';
 
 // Types
 export type {
   PDFSearchViewerOptions,
   SearchOptions,
+  AsyncSearchOptions,
   ClassNames,
+  DownloadOptions,
+  HighlightMode,
+  ZoomMode,
+  ZoomAnchor,
   PDFSearchViewerEventMap,
+  PDFRendererEventMap,
+  AnnotationManagerEventMap,
+  ThumbnailStripEventMap,
   SearchMatch,
+  MatchSnippet,
+  ContextLegendEntry,
+  MatchRect,
+  MatchPageGeometry,
+  HighlightRange,
+  Annotation,
+  AnnotationAnchor,
+  ExportHighlight,
+  OutlineItem,
+  PDFDestination,
   PageData,
+  PageViewport,
+  PageText,
   SpanData,
+  TextSpan,
+  SearchProgress,
   SearchContext,
 } from '../types';
@@ -0,0 +1,47 @@
+/**
+ * Web Worker entry for off-main-thread search (see `searchWorkerSrc`).
+ * Built to `dist/core/search.worker.js`; speaks the protocol in SearchWorkerClient.
+ */
+import { runSearchTasksAsync, isAbortError } from './SearchTask';
+import type { SearchWorkerRequest, SearchWorkerResponse } from './SearchWorkerClient';
+import type { TextSpan } from '../types';
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<SearchWorkerRequest>) => void) | null;
+  postMessage(message: SearchWorkerResponse): void;
+};
+
+let pages: Array<TextSpan[] | null> = [];
+const running = new Map<number, AbortController>();
+
+scope.onmessage = async ({ data }) => {
+  switch (data.type) {
+    case 'pages':
+      pages = data.pages;
+      break;
+
+    case 'cancel':
+      running.get(data.id)?.abort();
+      break;
+
+    case 'search': {
+      const { id, tasks } = data;
+      const abort = new AbortController();
+      running.set(id, abort);
+      try {
+        const results = await runSearchTasksAsync(pages, tasks, {
+          signal: abort.signal,
+          onProgress: (progress) => scope.postMessage({ type: 'progress', id, progress }),
+        });
+        scope.postMessage({ type: 'result', id, results });
+      } catch (err) {
+        if (!isAbortError(err)) {
+          scope.postMessage({ type: 'error', id, message: String((err as Error)?.message ?? err) });
+        }
+      } finally {
+        running.delete(id);
+      }
+      break;
+    }
+  }
+};
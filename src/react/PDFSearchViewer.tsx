@@ -10,9 +10,21 @@ import {
   PDFSearchViewer as CorePDFSearchViewer,
   type PDFSearchViewerOptions,
   type SearchOptions,
+  type AsyncSearchOptions,
   type SearchContext,
+  type SearchMatch,
+  type ContextLegendEntry,
+  type HighlightRange,
+  type Annotation,
+  type AnnotationProps,
+  type DownloadOptions,
+  type OutlineItem,
+  type PDFDestination,
   type PDFSource,
+  type ZoomMode,
+  type ZoomAnchor,
 } from '../core';
+import { isAbortError } from '../core/SearchTask';
 
 export interface PDFSearchViewerProps {
   /** pdfjs-dist library instance. Must be passed by consumer. */
@@ -21,7 +33,11 @@ export interface PDFSearchViewerProps {
   /** PDF source: URL string, File, ArrayBuffer, or Uint8Array. */
   source?: PDFSource | null;
 
-  /** Search query string. Empty/undefined clears the search. */
+  /**
+   * Search query string. Empty/undefined clears the search. With
+   * `viewerOptions.searchWorkerSrc` it is searched async in the worker, and
+   * a search still running when the query changes is aborted.
+   */
   searchQuery?: string;
 
   /** Multiple search contexts (alternative to searchQuery). Each context highlighted with different color. */
@@ -37,16 +53,36 @@ export interface PDFSearchViewerProps {
   onLoad?: (data: { pageCount: number }) => void;
 
   /** Called when search completes. */
-  onSearch?: (data: { query: string; total: number }) => void;
+  onSearch?: (data: {
+    query: string;
+    total: number;
+    pageCounts: number[];
+    matches: SearchMatch[];
+  }) => void;
 
   /** Called when multi-context search completes. */
-  onSearchMultiple?: (data: { contexts: SearchContext[]; total: number; totalsPerContext: number[] }) => void;
+  onSearchMultiple?: (data: {
+    contexts: SearchContext[];
+    total: number;
+    totalsPerContext: number[];
+    pageCounts: number[];
+    matches: SearchMatch[];
+  }) => void;
 
   /** Called when active match changes. */
   onMatchChange?: (data: { current: number; total: number }) => void;
 
-  /** Called when zoom/scale changes. */
-  onZoom?: (data: { scale: number }) => void;
+  /** Called when zoom/scale changes (also when a zoom mode re-fits after a resize). */
+  onZoom?: (data: { scale: number; mode: ZoomMode | null }) => void;
+
+  /** Called when the most visible page changes. */
+  onPageChange?: (data: { pageNumber: number; pageCount: number }) => void;
+
+  /** Called when an annotation is created, updated or deleted (to sync with a server). */
+  onAnnotationChange?: (data: {
+    type: 'create' | 'update' | 'delete';
+    annotation: Annotation;
+  }) => void;
 
   /** Called on error. */
   onError?: (data: { error: Error; context: string }) => void;
@@ -63,24 +99,70 @@ export interface PDFSearchViewerHandle {
   nextMatch: () => number;
   /** Navigate to previous match. Returns new index. */
   prevMatch: () => number;
+  /** Navigate to next match of one context. Returns new overall index. */
+  nextInContext: (contextIndex: number) => number;
+  /** Navigate to previous match of one context. Returns new overall index. */
+  prevInContext: (contextIndex: number) => number;
+  /** Show or hide one context's highlights without searching again. */
+  setContextVisible: (contextIndex: number, visible: boolean) => void;
   /** Clear all search highlights. */
   clearSearch: () => void;
   /** Search multiple contexts. Returns total match count. */
   searchMultiple: (contexts: SearchContext[], options?: SearchOptions) => number;
+  /** Search without blocking the page (in a worker with `searchWorkerSrc`). Rejects with an AbortError when superseded. */
+  searchAsync: (query: string, options?: AsyncSearchOptions) => Promise<number>;
+  /** Async version of `searchMultiple`. */
+  searchMultipleAsync: (contexts: SearchContext[], options?: AsyncSearchOptions) => Promise<number>;
+  /** Highlight page text offsets or PDF rects instead of searching. Returns the count. */
+  highlightRanges: (ranges: HighlightRange[]) => number;
   /** Get total match count. */
   getMatchCount: () => number;
   /** Get current match index. */
   getCurrentMatchIndex: () => number;
+  /** Get match count per page (index 0 = page 1). */
+  getPageMatchCounts: () => number[];
+  /** Get all matches with page, offsets, text and snippet. */
+  getMatches: () => SearchMatch[];
+  /** Get color, label, match total, active match and visibility per search context. */
+  getLegend: () => ContextLegendEntry[];
   /** Zoom in by one step. */
   zoomIn: () => Promise<void>;
   /** Zoom out by one step. */
   zoomOut: () => Promise<void>;
-  /** Set scale and re-render. */
-  setScale: (scale: number | 'auto') => Promise<void>;
-  /** Get current scale. */
-  getScale: () => number | 'auto';
-  /** Download the loaded PDF. */
-  download: (filename?: string) => Promise<void>;
+  /** Set a scale or zoom mode (e.g. 'page-fit') and re-render, keeping `anchor` (client point) in place. */
+  setScale: (scale: number | ZoomMode, anchor?: ZoomAnchor) => Promise<void>;
+  /** Get current scale setting (a number or a zoom mode). */
+  getScale: () => number | ZoomMode;
+  /** Get the numeric scale on screen (the fitted scale of a zoom mode). */
+  getEffectiveScale: () => number;
+  /** Scroll to a page (1-based). */
+  goToPage: (pageNumber: number) => void;
+  /** Go to the next page. */
+  nextPage: () => void;
+  /** Go to the previous page. */
+  prevPage: () => void;
+  /** Get the most visible page (1-based), 0 if nothing is loaded. */
+  getCurrentPage: () => number;
+  /** Scroll to a destination (e.g. an outline entry's `dest`). */
+  goToDestination: (dest: PDFDestination) => void;
+  /** Get the document outline (bookmarks) with destination pages. */
+  getOutline: () => Promise<OutlineItem[]>;
+  /** Download the loaded PDF, optionally with matches/annotations written into it (needs `viewerOptions.pdfLib`). */
+  download: (filename?: string, options?: DownloadOptions) => Promise<void>;
+  /** Get the PDF bytes, with highlights written into it like `download()`. */
+  exportPDF: (options?: DownloadOptions) => Promise<Uint8Array | null>;
+  /** Save the selected text as an annotation. Null if nothing is selected. */
+  createAnnotation: (props?: AnnotationProps) => Annotation | null;
+  /** Change an annotation's color or note. */
+  updateAnnotation: (id: string, props: AnnotationProps) => Annotation | null;
+  /** Delete an annotation. */
+  removeAnnotation: (id: string) => boolean;
+  /** Get all annotations. */
+  getAnnotations: () => Annotation[];
+  /** Get all annotations as JSON. */
+  exportAnnotations: () => string;
+  /** Replace the annotations with saved ones (JSON string or array). */
+  importAnnotations: (data: string | Annotation[]) => void;
   /** Get underlying core instance. */
   getCore: () => CorePDFSearchViewer | null;
 }
@@ -101,6 +183,8 @@ export const PDFSearchViewer = forwardRef(function PDFSearchViewer(
     onSearchMultiple,
     onMatchChange,
     onZoom,
+    onPageChange,
+    onAnnotationChange,
     onError,
     className,
     style,
@@ -110,8 +194,18 @@ export const PDFSearchViewer = forwardRef(function PDFSearchViewer(
   const coreRef = useRef<CorePDFSearchViewer | null>(null);
 
   // Store latest callbacks in refs to avoid re-subscribing
-  const callbackRefs = useRef({ onLoad, onSearch, onSearchMultiple, onMatchChange, onZoom, onError });
-  callbackRefs.current = { onLoad, onSearch, onSearchMultiple, onMatchChange, onZoom, onError };
+  const callbacks = {
+    onLoad,
+    onSearch,
+    onSearchMultiple,
+    onMatchChange,
+    onZoom,
+    onPageChange,
+    onAnnotationChange,
+    onError,
+  };
+  const callbackRefs = useRef(callbacks);
+  callbackRefs.current = callbacks;
 
   // Initialize core on mount
   useEffect(() => {
@@ -128,6 +222,16 @@ export const PDFSearchViewer = forwardRef(function PDFSearchViewer(
     core.on('searchmultiple', (data) => callbackRefs.current.onSearchMultiple?.(data));
     core.on('matchchange', (data) => callbackRefs.current.onMatchChange?.(data));
     core.on('zoom', (data) => callbackRefs.current.onZoom?.(data));
+    core.on('pagechange', (data) => callbackRefs.current.onPageChange?.(data));
+    core.on('annotationcreate', ({ annotation }) =>
+      callbackRefs.current.onAnnotationChange?.({ type: 'create', annotation })
+    );
+    core.on('annotationupdate', ({ annotation }) =>
+      callbackRefs.current.onAnnotationChange?.({ type: 'update', annotation })
+    );
+    core.on('annotationdelete', ({ annotation }) =>
+      callbackRefs.current.onAnnotationChange?.({ type: 'delete', annotation })
+    );
     core.on('error', (data) => callbackRefs.current.onError?.(data));
 
     coreRef.current = core;
@@ -149,31 +253,78 @@ export const PDFSearchViewer = forwardRef(function PDFSearchViewer(
 
   // Run search when query, contexts, or options change
   useEffect(() => {
-    if (!coreRef.current) return;
-
-    if (searchContexts && searchContexts.length > 0) {
-      coreRef.current.searchMultiple(searchContexts, searchOptions);
-    } else if (searchQuery && searchQuery.trim().length > 0) {
-      coreRef.current.search(searchQuery, searchOptions);
-    } else {
-      coreRef.current.clearSearch();
+    const core = coreRef.current;
+    if (!core) return;
+
+    const hasContexts = !!searchContexts && searchContexts.length > 0;
+    if (!hasContexts && !searchQuery?.trim()) {
+      core.clearSearch();
+      return;
     }
+
+    // With a search worker, match off the main thread; a newer search or unmount aborts
+    if (viewerOptions?.searchWorkerSrc) {
+      const abort = new AbortController();
+      const options = { ...searchOptions, signal: abort.signal };
+      const search = hasContexts
+        ? core.searchMultipleAsync(searchContexts!, options)
+        : core.searchAsync(searchQuery!, options);
+      search.catch((error) => {
+        if (!isAbortError(error)) callbackRefs.current.onError?.({ error, context: 'search' });
+      });
+      return () => abort.abort();
+    }
+
+    if (hasContexts) core.searchMultiple(searchContexts!, searchOptions);
+    else core.search(searchQuery!, searchOptions);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [searchQuery, searchContexts, searchOptions]);
 
   // Expose imperative methods via ref
   useImperativeHandle(ref, () => ({
     nextMatch: () => coreRef.current?.nextMatch() ?? -1,
     prevMatch: () => coreRef.current?.prevMatch() ?? -1,
+    nextInContext: (ci: number) => coreRef.current?.nextInContext(ci) ?? -1,
+    prevInContext: (ci: number) => coreRef.current?.prevInContext(ci) ?? -1,
+    setContextVisible: (ci: number, visible: boolean) =>
+      coreRef.current?.setContextVisible(ci, visible),
     clearSearch: () => coreRef.current?.clearSearch(),
     searchMultiple: (contexts: SearchContext[], opts?: SearchOptions) =>
       coreRef.current?.searchMultiple(contexts, opts) ?? 0,
+    searchAsync: (query: string, opts?: AsyncSearchOptions) =>
+      coreRef.current?.searchAsync(query, opts) ?? Promise.resolve(0),
+    searchMultipleAsync: (contexts: SearchContext[], opts?: AsyncSearchOptions) =>
+      coreRef.current?.searchMultipleAsync(contexts, opts) ?? Promise.resolve(0),
+    highlightRanges: (ranges: HighlightRange[]) => coreRef.current?.highlightRanges(ranges) ?? 0,
     getMatchCount: () => coreRef.current?.getMatchCount() ?? 0,
     getCurrentMatchIndex: () => coreRef.current?.getCurrentMatchIndex() ?? -1,
+    getPageMatchCounts: () => coreRef.current?.getPageMatchCounts() ?? [],
+    getMatches: () => coreRef.current?.getMatches() ?? [],
+    getLegend: () => coreRef.current?.getLegend() ?? [],
     zoomIn: async () => { await coreRef.current?.zoomIn(); },
     zoomOut: async () => { await coreRef.current?.zoomOut(); },
-    setScale: async (s: number | 'auto') => { await coreRef.current?.setScale(s); },
+    setScale: async (s: number | ZoomMode, anchor?: ZoomAnchor) => {
+      await coreRef.current?.setScale(s, anchor);
+    },
     getScale: () => coreRef.current?.getScale() ?? 'auto',
-    download: async (filename?: string) => { await coreRef.current?.download(filename); },
+    getEffectiveScale: () => coreRef.current?.getEffectiveScale() ?? 1,
+    goToPage: (pageNumber: number) => { coreRef.current?.goToPage(pageNumber); },
+    nextPage: () => { coreRef.current?.nextPage(); },
+    prevPage: () => { coreRef.current?.prevPage(); },
+    getCurrentPage: () => coreRef.current?.getCurrentPage() ?? 0,
+    goToDestination: (dest: PDFDestination) => { void coreRef.current?.goToDestination(dest); },
+    getOutline: () => coreRef.current?.getOutline() ?? Promise.resolve([]),
+    download: async (filename?: string, options?: DownloadOptions) => {
+      await coreRef.current?.download(filename, options);
+    },
+    exportPDF: async (options?: DownloadOptions) => (await coreRef.current?.exportPDF(options)) ?? null,
+    createAnnotation: (props?: AnnotationProps) => coreRef.current?.createAnnotation(props) ?? null,
+    updateAnnotation: (id: string, props: AnnotationProps) =>
+      coreRef.current?.updateAnnotation(id, props) ?? null,
+    removeAnnotation: (id: string) => coreRef.current?.removeAnnotation(id) ?? false,
+    getAnnotations: () => coreRef.current?.getAnnotations() ?? [],
+    exportAnnotations: () => coreRef.current?.exportAnnotations() ?? '[]',
+    importAnnotations: (data: string | Annotation[]) => coreRef.current?.importAnnotations(data),
     getCore: () => coreRef.current,
   }));
 
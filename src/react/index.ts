@@ -3,6 +3,10 @@ export { usePDFRenderer } from './usePDFRenderer';
 export type { UsePDFRendererReturn } from './usePDFRenderer';
 export { useSearchController } from './useSearchController';
 export type { UseSearchControllerReturn, UseSearchControllerOptions } from './useSearchController';
+export { useAnnotations } from './useAnnotations';
+export type { UseAnnotationsReturn, UseAnnotationsOptions } from './useAnnotations';
+export { useThumbnails } from './useThumbnails';
+export type { UseThumbnailsReturn, UseThumbnailsOptions } from './useThumbnails';
 
 // All-in-one component (convenience)
 export { PDFSearchViewer } from './PDFSearchViewer';
@@ -12,9 +16,28 @@ export type { PDFSearchViewerProps, PDFSearchViewerHandle } from './PDFSearchVie
 export type {
   PDFSearchViewerOptions,
   SearchOptions,
+  AsyncSearchOptions,
+  SearchProgress,
   SearchContext,
   ClassNames,
+  HighlightMode,
+  ZoomMode,
+  ZoomAnchor,
   SearchMatch,
+  MatchSnippet,
+  ContextLegendEntry,
+  MatchRect,
+  MatchPageGeometry,
+  HighlightRange,
+  Annotation,
+  AnnotationAnchor,
+  AnnotationProps,
+  ExportHighlight,
+  DownloadOptions,
+  OutlineItem,
+  PDFDestination,
   PageData,
+  PageViewport,
+  PageText,
   PDFSource,
 } from '../core';
@@ -0,0 +1,152 @@
+import { useRef, useEffect, useCallback, useState } from 'react';
+import { AnnotationManager } from '../core/AnnotationManager';
+import type { AnnotationManagerOptions, AnnotationProps } from '../core/AnnotationManager';
+import type { PDFRenderer } from '../core/PDFRenderer';
+import type { Annotation, ExportHighlight, PageData, PageText } from '../core';
+
+export interface UseAnnotationsReturn {
+  /** All annotations in creation order */
+  annotations: Annotation[];
+  /** Save the selected text as an annotation (null if nothing is selected) */
+  createFromSelection: (props?: AnnotationProps) => Annotation | null;
+  /** Change an annotation's color or note */
+  update: (id: string, props: AnnotationProps) => Annotation | null;
+  /** Delete an annotation */
+  remove: (id: string) => boolean;
+  /** All annotations as JSON */
+  serialize: () => string;
+  /** Replace the annotations with saved ones (JSON string or array) */
+  load: (data: string | Annotation[]) => void;
+  /** Annotations as highlights for `download(filename, highlights)` of usePDFRenderer */
+  getExportHighlights: () => ExportHighlight[];
+  /** The underlying manager (e.g. to subscribe to create/update/delete) */
+  manager: AnnotationManager;
+}
+
+export interface UseAnnotationsOptions extends AnnotationManagerOptions {
+  /** Renderer from usePDFRenderer, so lazily rendered pages get their annotations. */
+  renderer?: PDFRenderer | null;
+  /** Text index from usePDFRenderer, so exports include annotations on unrendered pages. */
+  textIndex?: PageText[] | null;
+}
+
+/**
+ * Hook for user annotations (headless). Pass pages from usePDFRenderer.
+ *
+ * ```tsx
+ * const { pages, renderer } = usePDFRenderer(pdfjsLib);
+ * const { annotations, createFromSelection, manager } = useAnnotations(pages, { renderer });
+ *
+ * useEffect(() => {
+ *   manager.on('create', ({ annotation }) => api.save(annotation));
+ * }, [manager]);
+ *
+ * <button onClick={() => createFromSelection({ color: '#ff000055' })}>Highlight</button>
+ * ```
+ */
+export function useAnnotations(
+  pages: PageData[],
+  options: UseAnnotationsOptions = {}
+): UseAnnotationsReturn {
+  const managerRef = useRef<AnnotationManager | null>(null);
+  const [manager, setManager] = useState(() => {
+    managerRef.current = new AnnotationManager(options);
+    return managerRef.current;
+  });
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // A new manager if the last one was destroyed (StrictMode mounts twice)
+  const getManager = useCallback(() => {
+    if (!managerRef.current) {
+      managerRef.current = new AnnotationManager(optionsRef.current);
+      setManager(managerRef.current);
+    }
+    return managerRef.current;
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      managerRef.current?.destroy();
+      managerRef.current = null;
+    };
+  }, []);
+
+  // Keep the list in sync with the manager
+  useEffect(() => {
+    const m = getManager();
+    const sync = () => setAnnotations(m.getAll());
+    sync();
+    m.on('create', sync);
+    m.on('update', sync);
+    m.on('delete', sync);
+    return () => {
+      m.off('create', sync);
+      m.off('update', sync);
+      m.off('delete', sync);
+    };
+  }, [getManager]);
+
+  // Redraw on new pages (load, zoom)
+  useEffect(() => {
+    getManager().setPages(pages);
+  }, [pages, getManager]);
+
+  // Draw on lazily rendered pages
+  const { renderer } = options;
+  useEffect(() => {
+    if (!renderer) return;
+    const onPageRender = ({ pageIndex, pageData }: { pageIndex: number; pageData: PageData }) => {
+      if (pages[pageIndex] === pageData) getManager().refreshPage(pageIndex);
+    };
+    renderer.on('pagerender', onPageRender);
+    return () => {
+      renderer.off('pagerender', onPageRender);
+    };
+  }, [renderer, pages, getManager]);
+
+  const createFromSelection = useCallback(
+    (props?: AnnotationProps) => getManager().createFromSelection(props),
+    [getManager]
+  );
+
+  const update = useCallback(
+    (id: string, props: AnnotationProps) => getManager().update(id, props),
+    [getManager]
+  );
+
+  const remove = useCallback((id: string) => getManager().remove(id), [getManager]);
+
+  const serialize = useCallback(() => getManager().serialize(), [getManager]);
+
+  const load = useCallback(
+    (data: string | Annotation[]) => {
+      const m = getManager();
+      m.load(data);
+      setAnnotations(m.getAll());
+    },
+    [getManager]
+  );
+
+  const { textIndex } = options;
+  const getExportHighlights = useCallback(
+    () =>
+      textIndex
+        ? getManager().getExportHighlights((i) => textIndex[i]?.spans)
+        : getManager().getExportHighlights(),
+    [textIndex, getManager]
+  );
+
+  return {
+    annotations,
+    createFromSelection,
+    update,
+    remove,
+    serialize,
+    load,
+    getExportHighlights,
+    manager,
+  };
+}
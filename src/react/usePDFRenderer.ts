@@ -1,29 +1,58 @@
 import { useRef, useEffect, useCallback, useState } from 'react';
 import { PDFRenderer } from '../core/PDFRenderer';
 import { ZOOM_STEP, MIN_SCALE, MAX_SCALE } from '../core/constants';
-import type { PDFSearchViewerOptions, PageData, PDFSource } from '../core';
+import type {
+  PDFSearchViewerOptions,
+  PageData,
+  PageText,
+  PDFSource,
+  ExportHighlight,
+  OutlineItem,
+  PDFDestination,
+  ZoomMode,
+} from '../core';
 
 export interface UsePDFRendererReturn {
   /** Ref to attach to the container div */
   containerRef: React.RefObject<HTMLDivElement | null>;
   /** Rendered page data (available after loading) */
   pages: PageData[];
+  /** Text of every page (available after loading). Pass to useSearchController to search unrendered pages. */
+  textIndex: PageText[] | null;
+  /** Underlying renderer (created on first load). Pass to useSearchController for virtualized rendering. */
+  renderer: PDFRenderer | null;
   /** Number of pages */
   pageCount: number;
   /** Whether PDF is currently loading */
   loading: boolean;
-  /** Current scale value */
-  scale: number | 'auto';
+  /** Error from extracting the text index or outline of the loaded PDF, null if none */
+  error: Error | null;
+  /** Current scale setting (a number or a zoom mode) */
+  scale: number | ZoomMode;
+  /** Numeric scale on screen (the fitted scale of a zoom mode) */
+  effectiveScale: number;
   /** Load a PDF source */
   loadPDF: (source: PDFSource) => Promise<PageData[]>;
-  /** Set scale and re-render */
-  setScale: (scale: number | 'auto') => Promise<PageData[]>;
+  /** Set a scale or zoom mode (e.g. 'page-fit') and re-render */
+  setScale: (scale: number | ZoomMode) => Promise<PageData[]>;
   /** Zoom in by one step */
   zoomIn: () => Promise<PageData[]>;
   /** Zoom out by one step */
   zoomOut: () => Promise<PageData[]>;
-  /** Download the loaded PDF */
-  download: (filename?: string) => Promise<void>;
+  /** Most visible page (1-based), 0 before loading */
+  currentPage: number;
+  /** Scroll to a page (1-based, clamped) */
+  goToPage: (pageNumber: number) => void;
+  /** Go to the next page */
+  nextPage: () => void;
+  /** Go to the previous page */
+  prevPage: () => void;
+  /** Document outline (bookmarks) with destination pages, empty if none */
+  outline: OutlineItem[];
+  /** Scroll to a destination (e.g. an outline entry's `dest`) */
+  goToDestination: (dest: PDFDestination) => void;
+  /** Download the loaded PDF, optionally with highlights written into it (needs the `pdfLib` option) */
+  download: (filename?: string, highlights?: ExportHighlight[]) => Promise<void>;
   /** Clean up renderer */
   cleanup: () => void;
 }
@@ -45,9 +74,15 @@ export function usePDFRenderer(
   const containerRef = useRef<HTMLDivElement | null>(null);
   const rendererRef = useRef<PDFRenderer | null>(null);
   const [pages, setPages] = useState<PageData[]>([]);
+  const [textIndex, setTextIndex] = useState<PageText[] | null>(null);
+  const [renderer, setRenderer] = useState<PDFRenderer | null>(null);
   const [pageCount, setPageCount] = useState(0);
   const [loading, setLoading] = useState(false);
-  const [scale, setScaleState] = useState<number | 'auto'>(options.scale ?? 'auto');
+  const [error, setError] = useState<Error | null>(null);
+  const [scale, setScaleState] = useState<number | ZoomMode>(options.scale ?? 'auto');
+  const [effectiveScale, setEffectiveScale] = useState(1);
+  const [currentPage, setCurrentPage] = useState(0);
+  const [outline, setOutline] = useState<OutlineItem[]>([]);
 
   // Init renderer when container is available
   useEffect(() => {
@@ -66,7 +101,16 @@ export function usePDFRenderer(
     if (!rendererRef.current) {
       const r = new PDFRenderer(containerRef.current, optionsRef.current);
       r.setPdfjsLib(pdfjsLib);
+      r.on('pagechange', ({ pageNumber }) => setCurrentPage(pageNumber));
+      // Zoom modes: fit the pages again when the container was resized
+      r.on('resize', () => {
+        r.renderAllPages().then((p) => {
+          setPages(p);
+          setEffectiveScale(r.getEffectiveScale());
+        }, () => {});
+      });
       rendererRef.current = r;
+      setRenderer(r);
     }
     return rendererRef.current;
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -78,10 +122,29 @@ export function usePDFRenderer(
       setLoading(true);
       try {
         const count = await renderer.loadDocument(source);
+        const pdfDoc = renderer.getDocument();
         const p = await renderer.renderAllPages();
+        // Another source was loaded meanwhile: its loadPDF() updates the state
+        if (renderer.getDocument() !== pdfDoc) return p;
         setPages(p);
+        setTextIndex(null);
+        setOutline([]);
+        setError(null);
         setPageCount(count);
         setScaleState(renderer.getScale());
+        setEffectiveScale(renderer.getEffectiveScale());
+
+        // Whole-document search and bookmarks, without holding up the pages
+        const current = () => renderer.getDocument() === pdfDoc;
+        const report = (err: unknown) => {
+          if (current()) setError(err instanceof Error ? err : new Error(String(err)));
+        };
+        renderer.getTextIndex().then((index) => {
+          if (current()) setTextIndex(index);
+        }, report);
+        renderer.getOutline().then((items) => {
+          if (current()) setOutline(items);
+        }, report);
         return p;
       } finally {
         setLoading(false);
@@ -91,12 +154,16 @@ export function usePDFRenderer(
   );
 
   const setScale = useCallback(
-    async (newScale: number | 'auto'): Promise<PageData[]> => {
+    async (newScale: number | ZoomMode): Promise<PageData[]> => {
       const renderer = getRenderer();
       renderer.setScale(newScale);
+      // Resize the current pages at once; they are drawn sharp in the background
+      renderer.previewScale();
       const p = await renderer.renderAllPages();
       setPages(p);
-      setScaleState(newScale);
+      // The latest scale, in case a newer zoom replaced this one while it rendered
+      setScaleState(renderer.getScale());
+      setEffectiveScale(renderer.getEffectiveScale());
       return p;
     },
     [getRenderer]
@@ -104,26 +171,40 @@ export function usePDFRenderer(
 
   const zoomIn = useCallback(async (): Promise<PageData[]> => {
     const renderer = getRenderer();
-    const current = renderer.getScale() === 'auto'
-      ? renderer.getEffectiveScale()
-      : (renderer.getScale() as number);
+    const s = renderer.getScale();
+    const current = typeof s === 'number' ? s : renderer.getEffectiveScale();
     const newScale = Math.min(current + ZOOM_STEP, MAX_SCALE);
     return setScale(newScale);
   }, [getRenderer, setScale]);
 
   const zoomOut = useCallback(async (): Promise<PageData[]> => {
     const renderer = getRenderer();
-    const current = renderer.getScale() === 'auto'
-      ? renderer.getEffectiveScale()
-      : (renderer.getScale() as number);
+    const s = renderer.getScale();
+    const current = typeof s === 'number' ? s : renderer.getEffectiveScale();
     const newScale = Math.max(current - ZOOM_STEP, MIN_SCALE);
     return setScale(newScale);
   }, [getRenderer, setScale]);
 
+  const goToPage = useCallback((pageNumber: number) => {
+    rendererRef.current?.goToPage(pageNumber);
+  }, []);
+
+  const nextPage = useCallback(() => {
+    rendererRef.current?.nextPage();
+  }, []);
+
+  const prevPage = useCallback(() => {
+    rendererRef.current?.prevPage();
+  }, []);
+
+  const goToDestination = useCallback((dest: PDFDestination) => {
+    void rendererRef.current?.goToDestination(dest);
+  }, []);
+
   const download = useCallback(
-    async (filename?: string) => {
+    async (filename?: string, highlights?: ExportHighlight[]) => {
       const renderer = getRenderer();
-      await renderer.download(filename);
+      await renderer.download(filename, highlights);
     },
     [getRenderer]
   );
@@ -131,12 +212,18 @@ export function usePDFRenderer(
   const cleanup = useCallback(() => {
     rendererRef.current?.cleanup();
     rendererRef.current = null;
+    setRenderer(null);
     setPages([]);
+    setTextIndex(null);
     setPageCount(0);
+    setCurrentPage(0);
+    setOutline([]);
+    setError(null);
   }, []);
 
   return {
-    containerRef, pages, pageCount, loading, scale,
-    loadPDF, setScale, zoomIn, zoomOut, download, cleanup,
+    containerRef, pages, textIndex, renderer, pageCount, loading, error, scale, effectiveScale, currentPage,
+    outline, loadPDF, setScale, zoomIn, zoomOut, goToPage, nextPage, prevPage, goToDestination,
+    download, cleanup,
   };
 }
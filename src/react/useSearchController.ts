@@ -1,28 +1,89 @@
 import { useRef, useEffect, useCallback, useState } from 'react';
 import { SearchController } from '../core/SearchController';
-import type { SearchOptions, ClassNames, PageData, SearchContext } from '../core';
+import type { PDFRenderer } from '../core/PDFRenderer';
+import { isAbortError } from '../core/SearchTask';
+import type {
+  SearchOptions,
+  AsyncSearchOptions,
+  SearchProgress,
+  SearchMatch,
+  ContextLegendEntry,
+  ClassNames,
+  PageData,
+  PageText,
+  SearchContext,
+  HighlightRange,
+  ExportHighlight,
+  HighlightMode,
+} from '../core';
 
 export interface UseSearchControllerReturn {
   /** Run a search query */
   search: (query: string, options?: SearchOptions) => number;
   /** Search multiple contexts with different highlight colors */
   searchMultiple: (contexts: SearchContext[], options?: SearchOptions) => number;
+  /**
+   * Search without blocking input (see `SearchController.searchAsync`).
+   * Resolves with the total, or null if a newer search superseded it.
+   */
+  searchAsync: (query: string, options?: AsyncSearchOptions) => Promise<number | null>;
+  /** Async version of `searchMultiple` */
+  searchMultipleAsync: (
+    contexts: SearchContext[],
+    options?: AsyncSearchOptions
+  ) => Promise<number | null>;
+  /** Highlight page text offsets or PDF rects (e.g. citations) instead of searching */
+  highlightRanges: (ranges: HighlightRange[]) => number;
   /** Go to next match */
   next: () => void;
   /** Go to previous match */
   prev: () => void;
   /** Go to specific match index */
   goTo: (index: number) => void;
+  /** Go to next match of one context */
+  nextInContext: (contextIndex: number) => void;
+  /** Go to previous match of one context */
+  prevInContext: (contextIndex: number) => void;
+  /** Show or hide one context's highlights without searching again */
+  setContextVisible: (contextIndex: number, visible: boolean) => void;
   /** Clear all highlights */
   clear: () => void;
+  /** Visible matches as highlights for `download(filename, highlights)` of usePDFRenderer */
+  getExportHighlights: () => ExportHighlight[];
   /** Current active match index (0-based), -1 if none */
   current: number;
   /** Total number of matches */
   total: number;
+  /** Number of matches on each page */
+  pageCounts: number[];
+  /** All matches with page, offsets, text and snippet (for a results list) */
+  matches: SearchMatch[];
+  /**
+   * Color, label, match total, active match (`current`) and visibility per
+   * context of the last multi-context search
+   */
+  legend: ContextLegendEntry[];
+  /** Why the last query could not be run (e.g. invalid regex), or null */
+  error: Error | null;
+  /** Progress of the running async search, null when none is running */
+  progress: SearchProgress | null;
 }
 
 export interface UseSearchControllerOptions {
-  classNames?: Pick<ClassNames, 'highlight' | 'activeHighlight'>;
+  classNames?: Pick<ClassNames, 'highlight' | 'activeHighlight' | 'highlightLayer'>;
+  /** `<mark>`s in the text layer or rectangles over it (see `PDFSearchViewerOptions.highlightMode`). */
+  highlightMode?: HighlightMode;
+  /**
+   * Renderer from usePDFRenderer. Required with `virtualize: true`
+   * so pages are highlighted as they get rendered.
+   */
+  renderer?: PDFRenderer | null;
+  /** Text index from usePDFRenderer, so matches on unrendered pages are counted. */
+  textIndex?: PageText[] | null;
+  /** URL of the search worker script, used by `searchAsync`. */
+  searchWorkerSrc?: string | URL;
+  /** Chars of context on each side of a match in `SearchMatch.snippet`. Defaults to 40. */
+  snippetLength?: number;
 }
 
 /**
@@ -30,8 +91,9 @@ export interface UseSearchControllerOptions {
  * Pass pages from usePDFRenderer to connect them.
  *
  * ```tsx
- * const { containerRef, pages, loadPDF } = usePDFRenderer(pdfjsLib);
- * const { search, searchMultiple, next, prev, current, total } = useSearchController(pages);
+ * const { containerRef, pages, textIndex, renderer, loadPDF } = usePDFRenderer(pdfjsLib);
+ * const { search, searchMultiple, next, prev, current, total } =
+ *   useSearchController(pages, { renderer, textIndex });
  *
  * return (
  *   <>
@@ -51,6 +113,11 @@ export function useSearchController(
   const controllerRef = useRef<SearchController | null>(null);
   const [current, setCurrent] = useState(-1);
   const [total, setTotal] = useState(0);
+  const [pageCounts, setPageCounts] = useState<number[]>([]);
+  const [matches, setMatches] = useState<SearchMatch[]>([]);
+  const [legend, setLegend] = useState<ContextLegendEntry[]>([]);
+  const [error, setError] = useState<Error | null>(null);
+  const [progress, setProgress] = useState<SearchProgress | null>(null);
 
   // Create controller once
   if (!controllerRef.current) {
@@ -63,28 +130,80 @@ export function useSearchController(
     ctrl.onChange = ({ current: c, total: t }) => {
       setCurrent(c);
       setTotal(t);
+      setPageCounts(ctrl.getPageMatchCounts());
+      setMatches(ctrl.getMatches());
+      setLegend(ctrl.getLegend());
     };
+    ctrl.onError = setError;
+    ctrl.onProgress = setProgress;
     return () => {
       ctrl.onChange = null;
+      ctrl.onError = null;
+      ctrl.onProgress = null;
+      ctrl.destroy();
     };
   }, []);
 
   // Update pages when they change
+  const { renderer, textIndex = null } = options;
   useEffect(() => {
-    controllerRef.current!.setPages(pages);
-  }, [pages]);
+    controllerRef.current!.setPages(pages, textIndex);
+  }, [pages, textIndex]);
+
+  // Highlight lazily rendered pages
+  useEffect(() => {
+    if (!renderer) return;
+    const onPageRender = ({ pageIndex, pageData }: { pageIndex: number; pageData: PageData }) => {
+      if (pages[pageIndex] === pageData) controllerRef.current!.refreshPage(pageIndex);
+    };
+    renderer.on('pagerender', onPageRender);
+    return () => {
+      renderer.off('pagerender', onPageRender);
+    };
+  }, [renderer, pages]);
 
   const search = useCallback((query: string, opts?: SearchOptions) => {
+    setError(null);
     return controllerRef.current!.search(query, opts);
   }, []);
 
   const searchMultiple = useCallback(
     (contexts: SearchContext[], opts?: SearchOptions) => {
+      setError(null);
       return controllerRef.current!.searchMultiple(contexts, opts);
     },
     []
   );
 
+  const highlightRanges = useCallback((ranges: HighlightRange[]) => {
+    setError(null);
+    return controllerRef.current!.highlightRanges(ranges);
+  }, []);
+
+  const runAsync = useCallback(async (run: (ctrl: SearchController) => Promise<number>) => {
+    setError(null);
+    try {
+      return await run(controllerRef.current!);
+    } catch (err) {
+      if (isAbortError(err)) return null;
+      throw err;
+    } finally {
+      // A newer search keeps reporting its own progress
+      if (!controllerRef.current!.searching) setProgress(null);
+    }
+  }, []);
+
+  const searchAsync = useCallback(
+    (query: string, opts?: AsyncSearchOptions) => runAsync((ctrl) => ctrl.searchAsync(query, opts)),
+    [runAsync]
+  );
+
+  const searchMultipleAsync = useCallback(
+    (contexts: SearchContext[], opts?: AsyncSearchOptions) =>
+      runAsync((ctrl) => ctrl.searchMultipleAsync(contexts, opts)),
+    [runAsync]
+  );
+
   const next = useCallback(() => {
     controllerRef.current!.next();
   }, []);
@@ -97,9 +216,47 @@ export function useSearchController(
     controllerRef.current!.goTo(index);
   }, []);
 
+  const nextInContext = useCallback((contextIndex: number) => {
+    controllerRef.current!.nextInContext(contextIndex);
+  }, []);
+
+  const prevInContext = useCallback((contextIndex: number) => {
+    controllerRef.current!.prevInContext(contextIndex);
+  }, []);
+
+  const setContextVisible = useCallback((contextIndex: number, visible: boolean) => {
+    controllerRef.current!.setContextVisible(contextIndex, visible);
+  }, []);
+
   const clear = useCallback(() => {
     controllerRef.current!.clear();
   }, []);
 
-  return { search, searchMultiple, next, prev, goTo, clear, current, total };
+  const getExportHighlights = useCallback(
+    () => controllerRef.current!.getExportHighlights(),
+    []
+  );
+
+  return {
+    search,
+    searchMultiple,
+    searchAsync,
+    searchMultipleAsync,
+    highlightRanges,
+    next,
+    prev,
+    goTo,
+    nextInContext,
+    prevInContext,
+    setContextVisible,
+    clear,
+    getExportHighlights,
+    current,
+    total,
+    pageCounts,
+    matches,
+    legend,
+    error,
+    progress,
+  };
 }
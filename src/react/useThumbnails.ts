@@ -0,0 +1,93 @@
+import { useRef, useEffect, useCallback, useState } from 'react';
+import { ThumbnailStrip } from '../core/ThumbnailStrip';
+import type { ThumbnailStripOptions } from '../core/ThumbnailStrip';
+import type { PDFRenderer } from '../core/PDFRenderer';
+import type { PageData } from '../core';
+
+export interface UseThumbnailsReturn {
+  /** Ref to attach to the thumbnail sidebar div */
+  containerRef: React.RefObject<HTMLDivElement | null>;
+  /** The underlying strip (created once the container is attached) */
+  strip: ThumbnailStrip | null;
+}
+
+export interface UseThumbnailsOptions extends ThumbnailStripOptions {
+  /** Renderer from usePDFRenderer: its document is shown and its current page marked. */
+  renderer?: PDFRenderer | null;
+  /** Match counts per page, e.g. `pageCounts` of useSearchController. */
+  pageCounts?: number[];
+  /** Called when a thumbnail is clicked. Defaults to scrolling the renderer to the page. */
+  onSelect?: (pageNumber: number) => void;
+}
+
+/**
+ * Hook for a page thumbnail sidebar with match counts. Pass pages from
+ * usePDFRenderer. Width, margin and classNames are applied on creation.
+ *
+ * ```tsx
+ * const { containerRef, pages, renderer } = usePDFRenderer(pdfjsLib);
+ * const { pageCounts } = useSearchController(pages);
+ * const thumbnails = useThumbnails(pages, { renderer, pageCounts, width: 100 });
+ *
+ * <div ref={thumbnails.containerRef} style={{ height: '80vh', overflow: 'auto' }} />
+ * ```
+ */
+export function useThumbnails(
+  pages: PageData[],
+  options: UseThumbnailsOptions = {}
+): UseThumbnailsReturn {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const stripRef = useRef<ThumbnailStrip | null>(null);
+  const [strip, setStrip] = useState<ThumbnailStrip | null>(null);
+
+  // Store options in a ref so the select listener sees the latest ones
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const getStrip = useCallback(() => {
+    if (!stripRef.current && containerRef.current) {
+      const { width, renderMargin, classNames } = optionsRef.current;
+      const s = new ThumbnailStrip(containerRef.current, { width, renderMargin, classNames });
+      s.on('select', ({ pageNumber }) => {
+        const { onSelect, renderer } = optionsRef.current;
+        if (onSelect) onSelect(pageNumber);
+        else renderer?.goToPage(pageNumber);
+      });
+      stripRef.current = s;
+      setStrip(s);
+    }
+    return stripRef.current;
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      stripRef.current?.destroy();
+      stripRef.current = null;
+    };
+  }, []);
+
+  // Show the loaded document (re-renders after zoom keep the same one)
+  const { renderer, pageCounts } = options;
+  useEffect(() => {
+    void getStrip()?.setDocument(renderer?.getDocument() ?? null);
+  }, [renderer, pages, getStrip]);
+
+  // Follow the current page
+  useEffect(() => {
+    if (!renderer) return;
+    getStrip()?.setCurrentPage(renderer.getCurrentPage());
+    const onPageChange = ({ pageNumber }: { pageNumber: number }) => {
+      stripRef.current?.setCurrentPage(pageNumber);
+    };
+    renderer.on('pagechange', onPageChange);
+    return () => {
+      renderer.off('pagechange', onPageChange);
+    };
+  }, [renderer, getStrip]);
+
+  useEffect(() => {
+    getStrip()?.setMatchCounts(pageCounts ?? []);
+  }, [pageCounts, getStrip]);
+
+  return { containerRef, strip };
+}
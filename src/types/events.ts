@@ -1,21 +1,82 @@
-import type { SearchContext } from './results';
+import type { SearchContext, SearchMatch, SearchProgress, PageData, Annotation } from './results';
+import type { ZoomMode } from './options';
 
 export type PDFSearchViewerEventMap = {
   /** Fired when PDF finishes loading. */
   load: { pageCount: number };
 
-  /** Fired when a search completes. */
-  search: { query: string; total: number };
+  /**
+   * Fired when a search completes. `pageCounts[i]` = matches on page i + 1.
+   * `matches` carry page, offsets, text and snippet (see SearchMatch).
+   * Fired again when a page rendered later (virtualized, no text index)
+   * changes the counts; `searchmultiple` and `highlight` do the same.
+   */
+  search: { query: string; total: number; pageCounts: number[]; matches: SearchMatch[] };
 
   /** Fired when a multi-context search completes. */
-  searchmultiple: { contexts: SearchContext[]; total: number; totalsPerContext: number[] };
+  searchmultiple: {
+    contexts: SearchContext[];
+    total: number;
+    totalsPerContext: number[];
+    pageCounts: number[];
+    matches: SearchMatch[];
+  };
+
+  /** Fired when ranges are highlighted with `highlightRanges()` (and re-applied after zoom). */
+  highlight: { total: number; pageCounts: number[]; matches: SearchMatch[] };
+
+  /** Fired while an async search (`searchAsync`) runs. */
+  searchprogress: SearchProgress;
 
   /** Fired when active match changes (via next/prev). */
   matchchange: { current: number; total: number };
 
-  /** Fired when zoom/scale changes. */
-  zoom: { scale: number };
+  /**
+   * Fired when zoom/scale changes, also when a zoom mode fits the pages again
+   * after the container was resized. `mode` is null for a numeric scale.
+   */
+  zoom: { scale: number; mode: ZoomMode | null };
+
+  /** Fired when the current page (most visible one) changes. */
+  pagechange: { pageNumber: number; pageCount: number };
+
+  /** Fired when an annotation is created (not when annotations are loaded). */
+  annotationcreate: { annotation: Annotation };
+
+  /** Fired when an annotation's color or note changes. */
+  annotationupdate: { annotation: Annotation };
+
+  /** Fired when an annotation is deleted. */
+  annotationdelete: { annotation: Annotation };
 
   /** Fired on error. */
   error: { error: Error; context: string };
 };
+
+export type AnnotationManagerEventMap = {
+  /** Fired when an annotation is created (not when annotations are loaded). */
+  create: { annotation: Annotation };
+  /** Fired when an annotation's color or note changes. */
+  update: { annotation: Annotation };
+  /** Fired when an annotation is deleted. */
+  delete: { annotation: Annotation };
+};
+
+export type ThumbnailStripEventMap = {
+  /** Fired when a thumbnail is clicked (or activated with Enter/Space). */
+  select: { pageNumber: number };
+};
+
+export type PDFRendererEventMap = {
+  /** Fired when a page's text layer is built (once per page per render pass). */
+  pagerender: { pageIndex: number; pageData: PageData };
+  /** Fired when the current page (most visible one) changes, by scrolling or `goToPage()`. */
+  pagechange: { pageNumber: number; pageCount: number };
+  /**
+   * Fired when the container was resized while a fit mode ('page-width',
+   * 'page-height' or 'page-fit') is active and the fitted scale changed. Call `renderAllPages()` to render at the new `scale`.
+   */
+  resize: { scale: number };
+  /** Fired when drawing a page's canvas failed. The page is drawn again on its next visit. */
+  pageerror: { pageIndex: number; error: Error };
+};
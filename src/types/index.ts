@@ -1,3 +1,3 @@
-export type { PDFSearchViewerOptions, SearchOptions, ClassNames } from './options';
-export type { PDFSearchViewerEventMap } from './events';
-export type { SearchMatch, SpanData, PageData, SearchContext } from './results';
+export type { PDFSearchViewerOptions, SearchOptions, AsyncSearchOptions, ClassNames, DownloadOptions, HighlightMode, ZoomMode, ZoomAnchor } from './options';
+export type { PDFSearchViewerEventMap, PDFRendererEventMap, AnnotationManagerEventMap, ThumbnailStripEventMap } from './events';
+export type { SearchMatch, MatchSnippet, TextSpan, SpanData, PageData, PageText, SearchProgress, SearchContext, ContextLegendEntry, MatchRect, MatchPageGeometry, PageViewport, HighlightRange, Annotation, AnnotationAnchor, ExportHighlight, PDFDestination, OutlineItem } from './results';
@@ -13,15 +13,58 @@ export interface ClassNames {
   textLayer?: string;
   /** Page label (e.g. "Page 1 / 5"). Default: 'psh-page-label' */
   pageLabel?: string;
-  /** Highlight <mark>. Default: 'highlight' */
+  /** Highlight <mark> (or rectangle in `overlay` mode). Default: 'highlight' */
   highlight?: string;
   /** Active highlight modifier. Default: 'active' */
   activeHighlight?: string;
+  /** Overlay holding a page's highlight rectangles (`overlay` mode). Default: 'psh-highlight-layer' */
+  highlightLayer?: string;
+  /** Overlay holding a page's annotations. Default: 'psh-annotation-layer' */
+  annotationLayer?: string;
+  /** One annotation rectangle. Default: 'psh-annotation' */
+  annotation?: string;
+  /** Layer of clickable links over a page (`links` option). Default: 'psh-link-layer' */
+  linkLayer?: string;
+  /** Thumbnail strip container. Default: 'psh-thumbnails' */
+  thumbnails?: string;
+  /** One page thumbnail. Default: 'psh-thumbnail' */
+  thumbnail?: string;
+  /** Thumbnail of the current page. Default: 'psh-thumbnail-active' */
+  thumbnailActive?: string;
+  /** Match count badge on a thumbnail. Default: 'psh-thumbnail-count' */
+  thumbnailCount?: string;
+}
+
+/**
+ * How search highlights are drawn:
+ * - `'marks'` — the matched text in the text layer spans is wrapped in `<mark>`s
+ * - `'overlay'` — rectangles are placed over the text layer; spans are not touched
+ */
+export type HighlightMode = 'marks' | 'overlay';
+
+/**
+ * Zoom modes that compute the scale from the container size:
+ * - `'auto'` — fit the container width, at most 2x
+ * - `'page-width'` — fit the container width
+ * - `'page-height'` — fit the visible height of the container
+ * - `'page-fit'` — fit the whole page
+ * - `'page-actual'` — actual size (scale 1)
+ */
+export type ZoomMode = 'auto' | 'page-fit' | 'page-width' | 'page-height' | 'page-actual';
+
+/** A point in client coordinates (like `MouseEvent.clientX`/`clientY`) that stays in place while zooming. */
+export interface ZoomAnchor {
+  x: number;
+  y: number;
 }
 
 export interface PDFSearchViewerOptions {
-  /** Scale factor. 'auto' = fit container width. Defaults to 'auto'. */
-  scale?: number | 'auto';
+  /**
+   * Scale factor, or a zoom mode computed from the container size (see
+   * `ZoomMode`). With 'page-width', 'page-height' or 'page-fit' the pages
+   * are fitted again when the container is resized. Defaults to 'auto'.
+   */
+  scale?: number | ZoomMode;
 
   /** Path or URL to pdf.js worker script. */
   workerSrc?: string;
@@ -32,6 +75,62 @@ export interface PDFSearchViewerOptions {
   /** Auto-scroll to active match on search/next/prev. Defaults to true. */
   autoScroll?: boolean;
 
+  /**
+   * Virtualized rendering: lay out page placeholders up front and draw
+   * canvases only for pages near the viewport. Defaults to false.
+   */
+  virtualize?: boolean;
+
+  /**
+   * Distance in pixels around the viewport within which pages are rendered
+   * when `virtualize` is enabled. Defaults to 1000.
+   */
+  renderMargin?: number;
+
+  /**
+   * URL of the search worker script (`pdf-search-highlight/search.worker`).
+   * When set, `searchAsync` matches text in a Web Worker; otherwise it runs
+   * on the main thread in small time slices.
+   */
+  searchWorkerSrc?: string | URL;
+
+  /** Chars of context on each side of a match in `SearchMatch.snippet`. Defaults to 40. */
+  snippetLength?: number;
+
+  /**
+   * Draw search highlights as `<mark>`s in the text layer (`'marks'`) or as
+   * rectangles over it (`'overlay'`), which leaves the spans untouched for
+   * text selection and other DOM tools and is faster with many matches.
+   * Defaults to 'marks'.
+   */
+  highlightMode?: HighlightMode;
+
+  /**
+   * Draw the PDF's link annotations as clickable areas over each page:
+   * internal links scroll to their destination, external links go to
+   * `linkHandler`. Defaults to false.
+   */
+  links?: boolean;
+
+  /**
+   * Called when an external link (http(s), mailto, ...) is clicked, with the
+   * URL validated by pdf.js. Defaults to opening it in a new tab without
+   * access to this page (`noopener`).
+   */
+  linkHandler?: (url: string) => void;
+
+  /**
+   * Zoom with Ctrl/⌘ + wheel and pinch gestures (trackpad, touch), around the
+   * point under the cursor. `PDFSearchViewer` only. Defaults to false.
+   */
+  gestureZoom?: boolean;
+
+  /**
+   * The `pdf-lib` module, needed to download a PDF with highlights written
+   * into it (`download(filename, { matches: true })`). Optional.
+   */
+  pdfLib?: any;
+
   /**
    * Custom CSS class names for viewer elements.
    * Override any or all to apply your own styles.
@@ -59,9 +158,79 @@ export interface SearchOptions {
    */
   flexibleWhitespace?: boolean;
 
+  /**
+   * Unicode compatibility normalization (NFKC) of text and query:
+   * ligatures ("ﬁ" → "fi"), full-width forms, composed/decomposed accents.
+   * Highlights still cover the original glyphs. Defaults to true.
+   */
+  normalize?: boolean;
+
+  /** Match regardless of accents: "resume" finds "résumé". Defaults to false. */
+  ignoreDiacritics?: boolean;
+
   /** Enable approximate (fuzzy) matching. Defaults to false. */
   fuzzy?: boolean;
 
+  /**
+   * Treat the query as a regular expression (e.g. `INV-\d{6}`).
+   * Invalid or potentially catastrophic patterns are reported through the
+   * `error` event instead of throwing. Empty matches are skipped.
+   * When true, `flexibleWhitespace` and `fuzzy` are ignored. Defaults to false.
+   */
+  regex?: boolean;
+
+  /**
+   * Treat the query as a boolean expression:
+   * `"termination" AND (notice OR breach) NOT waiver`, `indemnify NEAR/10 damages`.
+   * Operators are uppercase; terms next to each other are ANDed. Only the
+   * terms that make the expression true are highlighted. Terms use the other
+   * options; `regex` and `crossPage` are ignored. Defaults to false.
+   */
+  boolean?: boolean;
+
+  /**
+   * Locate a long passage (e.g. a quote to cite): find the single region of
+   * the document that best aligns with the query word by word, tolerating
+   * dropped or extra words, changes at the edges and OCR noise. The match
+   * carries a similarity `score`. The region may cross pages. Other matching
+   * options (`regex`, `fuzzy`, `boolean`, `wholeWord`, ...) are ignored.
+   * Defaults to false.
+   */
+  passage?: boolean;
+
+  /**
+   * Min alignment score (0.0–1.0) for `passage` mode; below it nothing is
+   * found. 1 means the passage verbatim. Defaults to 0.5.
+   */
+  passageThreshold?: number;
+
+  /**
+   * Where a boolean expression must hold: the whole page, a paragraph
+   * (lines up to a blank line or a vertical gap) or a single line. NEAR/n
+   * also stays within it. Defaults to 'page'.
+   */
+  queryScope?: 'page' | 'paragraph' | 'line';
+
+  /**
+   * Match across page boundaries: the document is searched as one text, so a
+   * passage starting at the bottom of one page and ending on the next is found
+   * as a single match with marks on both pages. Used by SearchController and
+   * PDFSearchViewer (`searchPage` always searches one page). Defaults to false.
+   */
+  crossPage?: boolean;
+
+  /**
+   * Only match whole words: the match must start and end at a word
+   * boundary (non-letter/digit, line end, or text edge). Defaults to false.
+   */
+  wholeWord?: boolean;
+
+  /**
+   * Only match at the start of a word ("act" finds "action", not "contract").
+   * Ignored when `wholeWord` is true. Defaults to false.
+   */
+  wordPrefix?: boolean;
+
   /**
    * Similarity threshold for fuzzy matching: 0.0–1.0.
    * similarity = 1 - (editDistance / queryLength).
@@ -69,3 +238,18 @@ export interface SearchOptions {
    */
   fuzzyThreshold?: number;
 }
+
+export interface AsyncSearchOptions extends SearchOptions {
+  /**
+   * Abort the search. A newer `searchAsync` call aborts the previous one
+   * automatically. Aborting after matching finished has no effect.
+   */
+  signal?: AbortSignal;
+}
+
+export interface DownloadOptions {
+  /** Write the current search matches (or highlighted ranges) into the file as Highlight annotations. Defaults to false. */
+  matches?: boolean;
+  /** Write the user annotations into the file as Highlight annotations with their notes. Defaults to false. */
+  annotations?: boolean;
+}
@@ -4,20 +4,120 @@
  * the matched text across one or more text layer spans.
  */
 export interface SearchMatch {
-  /** The <mark> elements for this match (may span multiple spans). */
+  /**
+   * The <mark> elements for this match (may span multiple spans), or its
+   * rectangles with `highlightMode: 'overlay'`.
+   * Empty while the match's page is not rendered yet.
+   */
   marks: HTMLElement[];
+
+  // Set by SearchController (not by HighlightManager.applyHighlights):
+
+  /** Index (0-based) of the page the match starts on. */
+  pageIndex?: number;
+  /** Page number (1-based) of the page the match starts on. */
+  pageNumber?: number;
+  /** Index of the page the match ends on — differs only for `crossPage` matches. */
+  endPageIndex?: number;
+  /** Start offset in the text of page `pageIndex` (see `getPageText`). */
+  start?: number;
+  /** End offset (exclusive) in the text of page `endPageIndex`. */
+  end?: number;
+  /** The matched text as extracted from the PDF (line ends as "\n"). */
+  text?: string;
+  /** The match with surrounding text, for result lists. */
+  snippet?: MatchSnippet;
+  /** Index of the SearchContext that found the match (0 for `search()`). */
+  contextIndex?: number;
+  /** Index in the ranges passed to `highlightRanges()` (ranges only). */
+  rangeIndex?: number;
+  /** Edit distance to the query for fuzzy matches; 0 otherwise. */
+  distance?: number;
+  /** Alignment score 0–1 of a `passage` search match (1 = verbatim). */
+  score?: number;
+  /**
+   * Bounding boxes of the match, one entry per page it is on. Computed from
+   * the text item positions, so they are available for unrendered pages too.
+   * Recomputed when the pages are re-rendered (e.g. zoom).
+   */
+  geometry?: MatchPageGeometry[];
+}
+
+/** An axis-aligned rectangle. */
+export interface MatchRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Where a match is on one page. Each rect covers the part of the match in one text item. */
+export interface MatchPageGeometry {
+  pageIndex: number;
+  /** Rects in PDF user space (points, origin bottom-left, `x`/`y` = lower-left corner). */
+  pdfRects: MatchRect[];
+  /**
+   * Rects in viewport pixels at the current scale and rotation (origin top-left
+   * of the page, `x`/`y` = top-left corner). Absent if the page has no `viewport`.
+   */
+  rects?: MatchRect[];
+  /** Page rotation in degrees (0, 90, 180 or 270). Absent if the page has no `viewport`. */
+  rotation?: number;
 }
 
 /**
- * Internal span data for a rendered page.
+ * A match in its surrounding text, whitespace collapsed to single spaces.
+ * `before`/`after` start/end with "…" when cut, and never cut through a word.
  */
-export interface SpanData {
-  /** The DOM element in the text layer. */
-  el: HTMLElement;
+export interface MatchSnippet {
+  before: string;
+  text: string;
+  after: string;
+}
+
+/**
+ * Text of a single text item, without DOM.
+ * The text index holds one per text layer span, in the same order.
+ */
+export interface TextSpan {
   /** Original text content. */
   text: string;
   /** Whether this span has end-of-line. */
   hasEOL: boolean;
+  /** Text item matrix `[a, b, c, d, e, f]` in PDF user space (baseline origin at e, f). */
+  transform?: number[];
+  /** Advance width of the text item in PDF user space units. */
+  width?: number;
+}
+
+/**
+ * Internal span data for a rendered page.
+ */
+export interface SpanData extends TextSpan {
+  /** The DOM element in the text layer. */
+  el: HTMLElement;
+}
+
+/**
+ * Text of one page extracted with `page.getTextContent()`, without rendering.
+ */
+export interface PageText {
+  /** Text items, index-aligned with `PageData.spans` once the page is rendered. */
+  spans: TextSpan[];
+}
+
+/**
+ * Page viewport of a render pass (a plain copy of the pdf.js `PageViewport`).
+ */
+export interface PageViewport {
+  /** Size in CSS pixels. */
+  width: number;
+  height: number;
+  scale: number;
+  /** Rotation in degrees (0, 90, 180 or 270). */
+  rotation: number;
+  /** PDF user space → viewport pixels matrix `[a, b, c, d, e, f]`. */
+  transform: number[];
 }
 
 /**
@@ -28,6 +128,23 @@ export interface PageData {
   container: HTMLElement;
   /** All text spans on this page. */
   spans: SpanData[];
+  /**
+   * Whether the text layer has been built. `false` for virtualized pages
+   * that have not been rendered yet — `spans` is filled in place once they are.
+   */
+  rendered?: boolean;
+  /** Viewport the page is laid out with, used for match geometry. */
+  viewport?: PageViewport;
+}
+
+/**
+ * Progress of an async search (`searchAsync`).
+ */
+export interface SearchProgress {
+  /** Pages searched so far, summed over all queries. */
+  done: number;
+  /** Pages to search: page count × number of queries. */
+  total: number;
 }
 
 /**
@@ -39,4 +156,119 @@ export interface SearchContext {
   query: string;
   /** Optional per-context search options (overrides shared options). */
   options?: import('./options').SearchOptions;
+  /**
+   * Highlight color (any CSS color). Defaults to the predefined palette for
+   * the first 8 contexts, then to generated colors.
+   */
+  color?: string;
+  /** Extra CSS class for this context's marks (replaces `highlight-N`). */
+  className?: string;
+  /** Name shown in the legend. Defaults to the query. */
+  label?: string;
+}
+
+/**
+ * A range to highlight without searching (see `highlightRanges()`), e.g. a
+ * citation. Give either `start`/`end` or `rects`.
+ */
+export interface HighlightRange {
+  /** Page number (1-based). */
+  pageNumber: number;
+  /** Start offset in the page text (see `getPageText`). */
+  start?: number;
+  /** End offset (exclusive) in the page text. */
+  end?: number;
+  /** Rects in PDF points (origin bottom-left); chars whose center is inside one are highlighted. */
+  rects?: MatchRect[];
+  /** Highlight color (any CSS color), set as `--psh-ctx-color`. */
+  color?: string;
+  /** CSS class for the marks (replaces the default highlight class). */
+  className?: string;
+}
+
+/**
+ * Where an annotation is: text offsets on one page (see `getPageText`).
+ * An annotation spanning pages has one anchor per page.
+ */
+export interface AnnotationAnchor {
+  /** Page number (1-based). */
+  pageNumber: number;
+  /** Start offset in the page text. */
+  start: number;
+  /** End offset (exclusive) in the page text. */
+  end: number;
+}
+
+/** A user highlight with a color and a note (see `AnnotationManager`). Plain JSON. */
+export interface Annotation {
+  id: string;
+  /** Anchors in page order. */
+  anchors: AnnotationAnchor[];
+  /** The annotated text when it was created (pages joined with "\n"). */
+  text: string;
+  /** Any CSS color. */
+  color: string;
+  note?: string;
+  /** ISO 8601 timestamps. */
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A destination inside the document, as pdf.js gives it: a named destination
+ * or an explicit one (`[pageRef, { name: 'XYZ' }, left, top, zoom]`, ...).
+ */
+export type PDFDestination = string | unknown[];
+
+/**
+ * An entry of the document outline (bookmarks), with its destination resolved.
+ */
+export interface OutlineItem {
+  title: string;
+  /** Destination page (1-based), null if the entry has none or it cannot be resolved. */
+  pageNumber: number | null;
+  /** Raw destination, for `goToDestination()` (scrolls to the exact position). */
+  dest: PDFDestination | null;
+  /** External link of the entry instead of a destination. */
+  url: string | null;
+  bold: boolean;
+  italic: boolean;
+  /** Child entries. */
+  items: OutlineItem[];
+}
+
+/**
+ * A highlight to write into the PDF file as a Highlight annotation
+ * (see `exportAnnotatedPDF()`).
+ */
+export interface ExportHighlight {
+  /** 0-based page index. */
+  pageIndex: number;
+  /** Highlighted areas in PDF points (origin bottom-left), e.g. `MatchPageGeometry.pdfRects`. */
+  rects: MatchRect[];
+  /** Any CSS color. Defaults to yellow. */
+  color?: string;
+  /** Popup text of the annotation. */
+  note?: string;
+}
+
+/**
+ * Legend entry for one multi-context search context (see `getLegend()`).
+ */
+export interface ContextLegendEntry {
+  /** Index in the contexts passed to `searchMultiple()`. */
+  contextIndex: number;
+  /** `label`, or the query if no label was given. */
+  label: string;
+  query: string;
+  /** Highlight color, or null when only a custom `className` styles it. */
+  color: string | null;
+  /** CSS class(es) of this context's marks. */
+  className: string;
+  /** Number of matches of this context. */
+  total: number;
+  /** Index of the active match among this context's matches, -1 if not in it. */
+  current: number;
+  /** Whether the context's highlights are shown (see `setContextVisible()`). */
+  visible: boolean;
 }
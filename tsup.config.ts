@@ -4,6 +4,7 @@ export default defineConfig({
   entry: {
     'core/index': 'src/core/index.ts',
     'react/index': 'src/react/index.ts',
+    'core/search.worker': 'src/core/search.worker.ts',
   },
   format: ['esm', 'cjs'],
   dts: true,